@@ -2,6 +2,17 @@
 const nextConfig = {
   experimental: {
     serverComponentsExternalPackages: ["@napi-rs/canvas"],
+    // The overlay fonts are read from disk at runtime, so they must ship with the routes that render
+    outputFileTracingIncludes: {
+      "/api/v1/gasfire/**": ["./src/render/gasfire/fonts/**"],
+    },
+  },
+  webpack: (config, {isServer}) => {
+    if (isServer) {
+      // Worker chunks are loaded next to the server chunks, not from the client asset path
+      config.output.workerPublicPath = './';
+    }
+    return config;
   },
 };
 
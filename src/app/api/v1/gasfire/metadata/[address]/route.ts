@@ -0,0 +1,9 @@
+import {NextRequest, NextResponse} from "next/server";
+import {buildTokenMetadata} from "@/utils/metadata";
+import {withErrorHandling} from "@/utils/errors";
+import {parseAddressParam} from "@/utils/validation";
+
+export const GET = withErrorHandling(async (req: NextRequest, {params}: { params: { address: string } }) => {
+  const address = parseAddressParam(params.address);
+  return NextResponse.json(await buildTokenMetadata(req, address));
+});
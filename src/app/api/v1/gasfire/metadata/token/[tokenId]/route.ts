@@ -0,0 +1,17 @@
+import {NextRequest, NextResponse} from "next/server";
+import {getAddress, toHex} from "viem";
+import {buildTokenMetadata} from "@/utils/metadata";
+import {ApiError, withErrorHandling} from "@/utils/errors";
+import {parseDataParam} from "@/utils/validation";
+
+const maxUint160 = (BigInt(1) << BigInt(160)) - BigInt(1);
+
+// Each address mints a single token whose id is the address as a uint160
+export const GET = withErrorHandling(async (req: NextRequest, {params}: { params: { tokenId: string } }) => {
+  const tokenId = parseDataParam(params.tokenId, 'tokenId');
+  if (tokenId > maxUint160) {
+    throw new ApiError('invalid_parameter', `Invalid tokenId parameter: ${params.tokenId}`);
+  }
+  const address = getAddress(toHex(tokenId, {size: 20}));
+  return NextResponse.json(await buildTokenMetadata(req, address));
+});
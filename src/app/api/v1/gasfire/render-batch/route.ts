@@ -0,0 +1,142 @@
+import {NextRequest, NextResponse} from 'next/server'
+import {Address} from 'viem';
+import {getRenderPool} from "@/render/gasfire/renderpool";
+import {loadActivityMetric} from "@/utils/metric";
+import {ApiError, withErrorHandling} from "@/utils/errors";
+import {createZip} from "@/utils/zip";
+import {
+  parseAddressParam,
+  parseDataParam,
+  parseEnumParam,
+  parseIntParam,
+  parseNetworksParam,
+  parseRenderOptionsParams
+} from "@/utils/validation";
+
+export const dynamic = 'force-dynamic';
+
+const batchFormats = ['zip', 'sprite'] as const;
+
+const maxBatchItems = 256;
+const minTileSize = 16;
+const maxTileSize = 1024;
+const defaultTileSize = 256;
+// Upper bound of the sprite sheet, as its pixels are assembled in memory before encoding
+const maxSpritePixels = 4096 * 4096;
+
+type BatchItem = {
+  address: Address,
+  data: bigint,
+}
+
+/**
+ * Reads the `{"items": [{"address": ..., "data": ...}]}` body of a batch.
+ *
+ * @param {NextRequest} req - The batch request.
+ * @returns {Promise<BatchItem[]>} - The items, in order.
+ * @throws {ApiError} - If the body is not JSON, has no items or too many, an invalid item or a duplicated address.
+ */
+async function parseBatchItems(req: NextRequest): Promise<BatchItem[]> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch (e) {
+    throw new ApiError('invalid_parameter', 'Request body must be JSON');
+  }
+  const items = typeof body === 'object' && body !== null ? (body as { items?: unknown }).items : undefined;
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new ApiError('missing_parameter', 'Missing items');
+  }
+  if (items.length > maxBatchItems) {
+    throw new ApiError('invalid_parameter', `Too many items, expected at most ${maxBatchItems}`);
+  }
+
+  const batchItems = items.map((item, i): BatchItem => {
+    const {address, data} = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+    return {
+      address: parseAddressParam(typeof address === 'string' ? address : null, `items[${i}].address`),
+      data: parseDataParam(typeof data === 'string' || typeof data === 'number' ? String(data) : null, `items[${i}].data`),
+    };
+  });
+  const addresses = new Set<string>();
+  for (const item of batchItems) {
+    if (addresses.has(item.address)) {
+      throw new ApiError('invalid_parameter', `Duplicated address: ${item.address}`);
+    }
+    addresses.add(item.address);
+  }
+  return batchItems;
+}
+
+/**
+ * Renders many addresses in one request, on the render worker pool.
+ *
+ * `format=zip` returns a zip of `<address>.png` images, `format=sprite` returns JSON with a sprite sheet PNG
+ * as a data URL and the atlas of its tiles, in the order of the items.
+ * The image parameters of render-image apply to every tile, `size` being the tile size.
+ */
+export const POST = withErrorHandling(async (req: NextRequest) => {
+  const {searchParams} = new URL(req.url);
+  const format = parseEnumParam(searchParams.get('format'), 'format', batchFormats, 'zip');
+  const size = parseIntParam(searchParams.get('size'), 'size', minTileSize, maxTileSize, defaultTileSize);
+  const metric = loadActivityMetric();
+  const networks = parseNetworksParam(searchParams.get('chains'));
+  const options = parseRenderOptionsParams(searchParams, size, size, minTileSize, metric, networks);
+  const items = await parseBatchItems(req);
+
+  const pool = getRenderPool();
+
+  if (format === 'zip') {
+    const images = await Promise.all(items.map(item => pool.run({
+      kind: 'render', output: 'png', width: size, height: size,
+      address: item.address, value: item.data, metric, options,
+    })));
+    const zip = createZip(items.map((item, i) => ({name: `${item.address}.png`, data: images[i]})));
+
+    const headers = new Headers();
+    headers.set("Content-Type", "application/zip");
+    headers.set("Content-Disposition", 'attachment; filename="gasfire.zip"');
+    return new NextResponse(zip, {status: 200, statusText: "OK", headers});
+  }
+
+  const columns = parseIntParam(
+      searchParams.get('columns'), 'columns', 1, maxBatchItems, Math.ceil(Math.sqrt(items.length)));
+  const rows = Math.ceil(items.length / columns);
+  const width = Math.min(columns, items.length) * size;
+  const height = rows * size;
+  if (width * height > maxSpritePixels) {
+    throw new ApiError('invalid_parameter', 'Too many items for the requested size');
+  }
+
+  const tiles = await Promise.all(items.map(item => pool.run({
+    kind: 'render', output: 'rgba', width: size, height: size,
+    address: item.address, value: item.data, metric, options,
+  })));
+  const frames = items.map((item, i) => ({
+    address: item.address,
+    data: String(item.data),
+    x: (i % columns) * size,
+    y: Math.floor(i / columns) * size,
+    width: size,
+    height: size,
+  }));
+
+  const rgba = new Uint8Array(width * height * 4);
+  frames.forEach((frame, i) => {
+    for (let row = 0; row < size; row++) {
+      const source = tiles[i].subarray(row * size * 4, (row + 1) * size * 4);
+      rgba.set(source, ((frame.y + row) * width + frame.x) * 4);
+    }
+  });
+  const sprite = await pool.run({kind: 'encode', width, height, rgba});
+
+  return NextResponse.json({
+    image: `data:image/png;base64,${Buffer.from(sprite).toString('base64')}`,
+    width,
+    height,
+    tile_size: size,
+    columns,
+    rows,
+    frames,
+  });
+});
@@ -1,23 +1,160 @@
 import {NextRequest, NextResponse} from 'next/server'
 import {createCanvas} from '@napi-rs/canvas';
-import {renderImage} from "@/render/gasfire/render";
+import {baseImageSize, FlameDebugInfo, getFlameDebugInfo, renderImage} from "@/render/gasfire/render";
+import {Point} from "@/render/gasfire/bezierfire";
+import {SvgSurface} from "@/render/gasfire/surface";
+import {defaultAnimation} from "@/render/gasfire/animation";
+import {AnimationOptions, renderAnimation} from "@/render/gasfire/encoder";
+import {getTokenActivityBy} from "@/client/gasfire/tokenclient";
+import {loadActivityMetric} from "@/utils/metric";
+import {ApiError, withErrorHandling} from "@/utils/errors";
+import {
+  parseAddressParam,
+  parseDataParam,
+  parseEnumParam,
+  parseIntParam,
+  parseNetworksParam,
+  parseRenderOptionsParams
+} from "@/utils/validation";
 
-export async function GET(req: NextRequest) {
+export const dynamic = 'force-dynamic';
+
+const imageFormats = ['svg', 'png', 'webp', 'jpeg'] as const;
+
+const animationFormats = ['gif', 'apng'] as const;
+
+type ImageFormat = typeof imageFormats[number] | typeof animationFormats[number];
+
+const contentTypes: Record<ImageFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  apng: 'image/apng',
+};
+
+const minImageSize = 16;
+const maxImageSize = 4096;
+// Upper bound of frames * width * height, as every frame is kept in memory before encoding
+const maxAnimationPixels = 64 * 1024 * 1024;
+
+// `true` draws the generation guides over the image, `json` returns how the flames were generated instead
+const debugModes = ['false', 'true', 'json'] as const;
+
+function roundOf(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function pointOf(point: Point): Point {
+  return {x: roundOf(point.x), y: roundOf(point.y)};
+}
+
+function degreesOf(radian: number): number {
+  return roundOf(radian * 180 / Math.PI);
+}
+
+/**
+ * Converts the generation of the flames into the debug JSON, in composition coordinates and degrees.
+ */
+function debugJsonOf(flames: FlameDebugInfo[]) {
+  return {
+    composition_size: baseImageSize,
+    flames: flames.map(({seed, offsetX, centroid, fireBase, sample, rejectedSamples}) => ({
+      seed,
+      offset_x: roundOf(offsetX),
+      centroid: pointOf(centroid),
+      fire_base: pointOf(fireBase),
+      ...(rejectedSamples !== undefined ? {rejected_samples: rejectedSamples} : {}),
+      ...(sample ? {
+        bar_length: sample.barLength,
+        bar_range_of_motion: {
+          x1: roundOf(sample.barRangeOfMotion.x1),
+          y1: roundOf(sample.barRangeOfMotion.y1),
+          x2: roundOf(sample.barRangeOfMotion.x2),
+          y2: roundOf(sample.barRangeOfMotion.y2),
+        },
+        midpoint: pointOf(sample.midpoint),
+        start_angle: degreesOf(sample.startAngle),
+        end_angle: degreesOf(sample.endAngle),
+        angle: degreesOf(sample.angle),
+      } : {}),
+    })),
+  };
+}
+
+export const GET = withErrorHandling(async (req: NextRequest) => {
   const {searchParams} = new URL(req.url);
-  const address = searchParams.get('address');
-  const data = BigInt(searchParams.get('data')!!);
-  if (!address || !data) {
-    return NextResponse.json({error: 'Missing address or data parameter'}, {status: 400});
+  const address = parseAddressParam(searchParams.get('address'));
+  const dataParam = searchParams.get('data');
+  const chains = searchParams.get('chains');
+  const animated = parseEnumParam(searchParams.get('animated'), 'animated', ['true', 'false'], 'false') === 'true';
+  const format = animated
+      ? parseEnumParam(searchParams.get('format'), 'format', animationFormats, 'gif')
+      : parseEnumParam(searchParams.get('format'), 'format', imageFormats, 'png');
+  // `size` sets both dimensions, `width` and `height` override it
+  const size = parseIntParam(searchParams.get('size'), 'size', minImageSize, maxImageSize, baseImageSize);
+  const width = parseIntParam(searchParams.get('width'), 'width', minImageSize, maxImageSize, size);
+  const height = parseIntParam(searchParams.get('height'), 'height', minImageSize, maxImageSize, size);
+  const metric = loadActivityMetric();
+  const networks = parseNetworksParam(chains);
+  const options = parseRenderOptionsParams(searchParams, width, height, minImageSize, metric, networks);
+  const animation: AnimationOptions = {
+    frames: parseIntParam(searchParams.get('frames'), 'frames', 2, 120, defaultAnimation.frames),
+    fps: parseIntParam(searchParams.get('fps'), 'fps', 1, 50, defaultAnimation.fps),
+    amplitude: parseIntParam(searchParams.get('amplitude'), 'amplitude', 0, 64, defaultAnimation.amplitude),
+  };
+  if (animated && animation.frames * width * height > maxAnimationPixels) {
+    throw new ApiError('invalid_parameter', 'Too many frames for the requested size');
+  }
+  const debug = parseEnumParam(searchParams.get('debug'), 'debug', debugModes, 'false');
+  if (debug !== 'false') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new ApiError('invalid_parameter', 'debug is disabled in production');
+    }
+    if (animated) {
+      throw new ApiError('invalid_parameter', 'debug is not available for animations');
+    }
+    options.debug = true;
+  }
+  if (dataParam === null && !chains) {
+    throw new ApiError('missing_parameter', 'Missing data parameter');
+  }
+  if (debug === 'json') {
+    // The flames don't depend on the data, so it isn't fetched
+    return NextResponse.json(debugJsonOf(getFlameDebugInfo(address, options)));
   }
 
-  const imageSize = 512;
-  const canvas = createCanvas(imageSize, imageSize);
-  const ctx = canvas.getContext('2d');
+  let data: bigint;
+  if (dataParam !== null) {
+    data = parseDataParam(dataParam);
+  } else {
+    // Without an explicit counter, render the live activity of the requested chains
+    data = (await getTokenActivityBy(address, networks))[metric];
+  }
 
-  renderImage(ctx, canvas.width, canvas.height, address, data);
   const headers = new Headers();
-  headers.set("Content-Type", "image/png");
+  headers.set("Content-Type", contentTypes[format]);
+  if (options.debug) {
+    headers.set("X-Gasfire-Debug", JSON.stringify(debugJsonOf(getFlameDebugInfo(address, options))));
+  }
 
-  const pngBuffer = await canvas.encode('png');
-  return new NextResponse(pngBuffer, {status: 200, statusText: "OK", headers});
-}
+  if (format === 'gif' || format === 'apng') {
+    const animationBuffer = await renderAnimation(width, height, address, data, metric, options, animation, format);
+    return new NextResponse(animationBuffer, {status: 200, statusText: "OK", headers});
+  }
+
+  if (format === 'svg') {
+    const surface = new SvgSurface(width, height);
+    renderImage(surface, width, height, address, data, metric, options);
+    return new NextResponse(surface.toSvg(), {status: 200, statusText: "OK", headers});
+  }
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+
+  renderImage(ctx, canvas.width, canvas.height, address, data, metric, options);
+
+  const imageBuffer = format === 'png' ? await canvas.encode('png') : await canvas.encode(format);
+  return new NextResponse(imageBuffer, {status: 200, statusText: "OK", headers});
+});
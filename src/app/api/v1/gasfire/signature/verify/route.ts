@@ -0,0 +1,62 @@
+import {NextRequest, NextResponse} from "next/server";
+import {
+  is_compact_signature,
+  is_typed_signature,
+  load_signature_config,
+  maxSignedDataLength,
+  verify_signature,
+  verify_typed_signature
+} from "@/utils/signature";
+import {ApiError, withErrorHandling} from "@/utils/errors";
+import {parseAddressParam, parseBooleanParam, parseDataParam} from "@/utils/validation";
+import {loadTrustedSigners} from "@/utils/signer";
+import {loadActivityMetric} from "@/utils/metric";
+
+export const GET = withErrorHandling(handler);
+
+export const POST = withErrorHandling(handler);
+
+async function handler(req: NextRequest) {
+  const {searchParams} = new URL(req.url);
+  const address = parseAddressParam(searchParams.get('address'));
+  const result = parseBooleanParam(searchParams.get('result'), 'result');
+  const data = searchParams.get('data') ?? '';
+  // Validated as a number, but signed as the exact decimal string returned by the verify API
+  const value = parseDataParam(data);
+  const signature = searchParams.get('signature');
+  if (!signature) {
+    throw new ApiError('missing_parameter', 'Missing signature parameter');
+  }
+  const signatureConfig = load_signature_config();
+
+  if (signatureConfig.mode === 'eip712') {
+    // The typed message is rebuilt from the nonce and deadline returned by the verify API
+    const nonce = parseDataParam(searchParams.get('nonce'), 'nonce');
+    const deadline = parseDataParam(searchParams.get('deadline'), 'deadline');
+    if (!is_typed_signature(signature)) {
+      throw new ApiError('invalid_signature', 'Signature must be a 65 bytes hex string in eip712 signature mode');
+    }
+
+    // The counter is signed under the field of the configured metric
+    const metric = loadActivityMetric();
+    const trustedSigners = await loadTrustedSigners();
+    const {signer, valid, expired} = await verify_typed_signature(
+        signature, signatureConfig.domain, {address, eligible: result, metric, value, nonce, deadline},
+        trustedSigners, BigInt(Math.floor(Date.now() / 1000)));
+    return NextResponse.json({
+      valid, signer, expired, trusted_signers: trustedSigners, signature_mode: signatureConfig.mode
+    });
+  }
+
+  if (data.length > maxSignedDataLength) {
+    throw new ApiError('invalid_data', `Invalid data parameter: longer than ${maxSignedDataLength} digits`);
+  }
+  if (!is_compact_signature(signature)) {
+    throw new ApiError('invalid_signature', 'Signature must be a 64 bytes hex string in compact signature mode');
+  }
+
+  // Signatures of rotated out signers stay valid
+  const trustedSigners = await loadTrustedSigners();
+  const {signer, valid} = await verify_signature(signature, [address, result, data], trustedSigners);
+  return NextResponse.json({valid, signer, trusted_signers: trustedSigners, signature_mode: signatureConfig.mode});
+}
@@ -1,37 +1,79 @@
 import {NextRequest, NextResponse} from "next/server";
 import {getTokenActivityBy} from "@/client/gasfire/tokenclient";
-import {create_signature} from "@/utils/signature";
+import {
+  create_signature,
+  create_typed_data,
+  create_typed_signature,
+  eligibilityValueFields,
+  EligibilityMessage,
+  load_signature_config
+} from "@/utils/signature";
+import {loadActivityMetric} from "@/utils/metric";
+import {withErrorHandling} from "@/utils/errors";
+import {parseAddressParam, parseDataParam, parseNetworksParam} from "@/utils/validation";
+import {loadSigner} from "@/utils/signer";
 
-export async function GET(req: NextRequest) {
-  return handler(req);
-}
+export const GET = withErrorHandling(handler);
 
-export async function POST(req: NextRequest) {
-  return handler(req);
-}
+export const POST = withErrorHandling(handler);
 
 async function handler(req: NextRequest) {
   const {searchParams} = new URL(req.url);
-  const address = searchParams.get('address');
-  if (!address) {
-    // If the address is not provided in the query, throw an error
-    throw new Error('Address is required');
-  }
-  const privateKey = process.env.SIGNER_PRIVATE_KEY;
-  if (privateKey === undefined) {
-    throw new Error('SIGNER_PRIVATE_KEY is not defined');
-  }
+  const address = parseAddressParam(searchParams.get('address'));
+  const signer = await loadSigner();
+  const networks = parseNetworksParam(searchParams.get('chains'));
+  const signatureConfig = load_signature_config();
+  const nonceParam = searchParams.get('nonce');
+  const nonce = nonceParam === null ? BigInt(0) : parseDataParam(nonceParam, 'nonce');
 
-  const tokenActivity = await getTokenActivityBy(address);
+  const metric = loadActivityMetric();
+  const tokenActivity = await getTokenActivityBy(address, networks);
 
   // Check credential 0 ('Complete a transaction on Basechain') for the address
   const check_result = tokenActivity.gas_used > 0;
-  const counter = String(tokenActivity.gas_used);
+  // The counter is the configured metric, which also drives the tier of the rendered image
+  const counter = String(tokenActivity[metric]);
   console.log(`Credential check result: ${check_result}, counter: ${counter}`);
 
+  const chains = tokenActivity.chains.map(chain => ({
+    network: chain.network,
+    gas_used: String(chain.gas_used),
+    fee_paid: String(chain.fee_paid)
+  }));
+  const body = {
+    mint_eligibility: check_result, data: counter, metric, chains,
+    counting_rules: tokenActivity.rules
+  };
+
+  if (signatureConfig.mode === 'eip712') {
+    // The typed message binds the signature to the configured chain and contract, and expires it
+    const message: EligibilityMessage = {
+      address,
+      eligible: check_result,
+      metric,
+      value: BigInt(counter),
+      nonce,
+      deadline: BigInt(Math.floor(Date.now() / 1000) + signatureConfig.ttlSeconds),
+    };
+    const signature = await create_typed_signature(signer, signatureConfig.domain, message);
+    const typed_data = create_typed_data(signatureConfig.domain, message);
+    return NextResponse.json({
+      ...body, signature, signer: signer.address, signature_mode: signatureConfig.mode,
+      typed_data: {
+        ...typed_data,
+        message: {
+          ...typed_data.message,
+          [eligibilityValueFields[metric]]: String(message.value),
+          nonce: String(message.nonce),
+          deadline: String(message.deadline)
+        }
+      }
+    });
+  }
+
   // If the credential check is successful, create a signature using the address, check result, and counter
-  const signature = await create_signature(privateKey as `0x${string}`, [address as `0x${string}`, check_result, String(counter)]);
+  const signature = await create_signature(signer, [address, check_result, String(counter)]);
   console.log(`Signature: ${signature}`);
-  // Return a success response with the check result, counter, and signature
-  return NextResponse.json({mint_eligibility: check_result, data: counter, signature});
-}
\ No newline at end of file
+  // Return a success response with the check result, counter, signature and the signer that produced it
+  return NextResponse.json({...body, signature, signer: signer.address, signature_mode: signatureConfig.mode});
+}
@@ -0,0 +1,80 @@
+import 'server-only'
+import {numberToHex} from 'viem';
+import type {Network} from "@/client/gasfire/networks";
+import type {TransactionHistory, TransactionProvider} from "@/client/gasfire/provider";
+import {callJsonRpcBatch, fetchTransactionsByHash} from "@/client/gasfire/jsonrpc";
+import {ProviderError} from "@/client/gasfire/errors";
+
+const alchemyNetworks: Record<Network, string> = {
+  mainnet: 'eth-mainnet',
+  arbitrum: 'arb-mainnet',
+  basechain: 'base-mainnet',
+  sepolia: 'eth-sepolia',
+  holesky: 'eth-holesky',
+};
+
+type AssetTransfersPage = {
+  transfers: { hash: string }[],
+  pageKey?: string,
+}
+
+/**
+ * Reads transactions through Alchemy's `alchemy_getAssetTransfers` API.
+ * Transfers carry no gas data, so the receipts are fetched for every transfer hash.
+ */
+export class AlchemyProvider implements TransactionProvider {
+  readonly name = 'alchemy';
+  private readonly apiKey: string;
+  private readonly urls: Partial<Record<Network, string>>;
+
+  /**
+   * @param {string} apiKey - The Alchemy API key.
+   * @param {Partial<Record<Network, string>>} [urls] - Overrides of the endpoint URL per network.
+   */
+  constructor(apiKey: string, urls: Partial<Record<Network, string>> = {}) {
+    this.apiKey = apiKey;
+    this.urls = urls;
+  }
+
+  private urlOf = (network: Network): string => {
+    return this.urls[network] ?? `https://${alchemyNetworks[network]}.g.alchemy.com/v2/${this.apiKey}`;
+  }
+
+  supports = (network: Network): boolean => {
+    return !!this.apiKey || this.urls[network] !== undefined;
+  }
+
+  getTransactionsOf = async (network: Network, address: string, startBlock: number = 0): Promise<TransactionHistory> => {
+    const url = this.urlOf(network);
+    const hashes = new Set<string>();
+
+    for (const direction of ['fromAddress', 'toAddress']) {
+      let pageKey: string | undefined = undefined;
+      do {
+        const [result] = await callJsonRpcBatch(this.name, url, [{
+          method: 'alchemy_getAssetTransfers',
+          params: [{
+            fromBlock: numberToHex(startBlock),
+            toBlock: 'latest',
+            [direction]: address,
+            category: ['external', 'erc20', 'erc721', 'erc1155'],
+            // Alchemy skips zero-value transfers by default, which would drop approvals and most contract calls
+            excludeZeroValue: false,
+            order: 'asc',
+            maxCount: '0x3e8',
+            pageKey,
+          }],
+        }]);
+        const page = (typeof result === 'object' ? result : null) as AssetTransfersPage | null;
+        if (!page || !Array.isArray(page.transfers)) {
+          throw new ProviderError(this.name, `unexpected alchemy_getAssetTransfers result: ${JSON.stringify(result)}`);
+        }
+        page.transfers.forEach(transfer => hashes.add(transfer.hash));
+        pageKey = page.pageKey;
+      } while (pageKey);
+    }
+
+    const transactions = await fetchTransactionsByHash(this.name, url, Array.from(hashes));
+    return {transactions, provider: this.name, fromBlock: startBlock, partial: false};
+  }
+}
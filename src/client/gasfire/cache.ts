@@ -0,0 +1,144 @@
+import 'server-only'
+import {mkdir, readFile, writeFile} from 'fs/promises';
+import path from 'path';
+import type {GeneralTxItem} from "@/client/gasfire/tokenclient";
+import type {Network} from "@/client/gasfire/networks";
+import type {TransactionHistory, TransactionProvider} from "@/client/gasfire/provider";
+
+export type CachedHistory = {
+  transactions: GeneralTxItem[],
+  lastBlock: number,
+  fetchedAt: number,
+  provider: string, // The provider of the latest refresh
+}
+
+/**
+ * A storage backend of cached transaction histories.
+ */
+export interface HistoryCacheStore {
+  get(key: string): Promise<CachedHistory | undefined>;
+
+  set(key: string, history: CachedHistory): Promise<void>;
+}
+
+/**
+ * Keeps histories in process memory, evicting the oldest entry beyond `maxEntries`.
+ */
+export class MemoryCacheStore implements HistoryCacheStore {
+  private readonly entries = new Map<string, CachedHistory>();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries: number = 10000) {
+    this.maxEntries = maxEntries;
+  }
+
+  get = async (key: string): Promise<CachedHistory | undefined> => {
+    return this.entries.get(key);
+  }
+
+  set = async (key: string, history: CachedHistory): Promise<void> => {
+    this.entries.delete(key);
+    this.entries.set(key, history);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!!);
+    }
+  }
+}
+
+/**
+ * Keeps histories as JSON files in a directory, so that they survive restarts.
+ */
+export class FileCacheStore implements HistoryCacheStore {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private fileOf = (key: string): string => {
+    return path.join(this.dir, `${key.replace(/[^a-zA-Z0-9-]/g, '_')}.json`);
+  }
+
+  get = async (key: string): Promise<CachedHistory | undefined> => {
+    try {
+      return JSON.parse(await readFile(this.fileOf(key), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  set = async (key: string, history: CachedHistory): Promise<void> => {
+    await mkdir(this.dir, {recursive: true});
+    await writeFile(this.fileOf(key), JSON.stringify(history));
+  }
+}
+
+/**
+ * Caches the histories of another provider by network and address.
+ *
+ * Fresh entries are served from the cache. Stale entries are refreshed incrementally from the last block seen,
+ * which is fetched again and deduplicated by hash in case it was only partially indexed.
+ * Partial histories are returned as they are, but neither cached nor merged, as later refreshes would never
+ * fetch the blocks they miss.
+ */
+export class CachingProvider implements TransactionProvider {
+  readonly name: string;
+  private readonly provider: TransactionProvider;
+  private readonly store: HistoryCacheStore;
+  private readonly ttlMs: number;
+  private readonly inflight = new Map<string, Promise<TransactionHistory>>();
+
+  constructor(provider: TransactionProvider, store: HistoryCacheStore, ttlMs: number) {
+    this.name = provider.name;
+    this.provider = provider;
+    this.store = store;
+    this.ttlMs = ttlMs;
+  }
+
+  supports = (network: Network): boolean => {
+    return this.provider.supports(network);
+  }
+
+  getTransactionsOf = async (network: Network, address: string, startBlock: number = 0): Promise<TransactionHistory> => {
+    if (startBlock !== 0) {
+      return this.provider.getTransactionsOf(network, address, startBlock);
+    }
+
+    // Concurrent requests for the same history share a single refresh
+    const key = `${network}-${address.toLowerCase()}`;
+    let pending = this.inflight.get(key);
+    if (pending === undefined) {
+      pending = this.refresh(key, network, address).finally(() => this.inflight.delete(key));
+      this.inflight.set(key, pending);
+    }
+    return pending;
+  }
+
+  private refresh = async (key: string, network: Network, address: string): Promise<TransactionHistory> => {
+    const stored = await this.store.get(key);
+    // Entries cached before the provider was recorded may hold a partial node scan, so they are rebuilt
+    const cached = stored?.provider ? stored : undefined;
+    if (cached && Date.now() - cached.fetchedAt < this.ttlMs) {
+      return {transactions: cached.transactions, provider: cached.provider, fromBlock: 0, partial: false};
+    }
+
+    const fetchedAt = Date.now();
+    const fresh = await this.provider.getTransactionsOf(network, address, cached?.lastBlock ?? 0);
+    if (fresh.partial) {
+      return fresh;
+    }
+
+    const transactions = new Map<string, GeneralTxItem>();
+    for (const tx of [...(cached?.transactions ?? []), ...fresh.transactions]) {
+      transactions.set(tx.hash, tx);
+    }
+    const merged = Array.from(transactions.values());
+    const lastBlock = merged.reduce((acc, tx) => Math.max(acc, Number(tx.blockNumber)), cached?.lastBlock ?? 0);
+
+    await this.store.set(key, {transactions: merged, lastBlock, fetchedAt, provider: fresh.provider});
+    return {transactions: merged, provider: fresh.provider, fromBlock: 0, partial: false};
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Thrown when a provider fails to serve a request.
+ */
+export class ProviderError extends Error {
+  readonly provider: string;
+  readonly rateLimited: boolean;
+
+  constructor(provider: string, message: string, rateLimited: boolean = false) {
+    super(`${provider} API failed: ${message}`);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.rateLimited = rateLimited;
+  }
+}
@@ -0,0 +1,117 @@
+import 'server-only'
+import axios from 'axios';
+import type {GeneralTxItem} from "@/client/gasfire/tokenclient";
+import type {Network} from "@/client/gasfire/networks";
+import type {TransactionHistory, TransactionProvider} from "@/client/gasfire/provider";
+import {ProviderError} from "@/client/gasfire/errors";
+import {explorerQueue} from "@/client/gasfire/queue";
+
+// Etherscan never returns more than 10,000 rows for a single txlist query (page * offset <= 10000).
+const etherscanResultWindow = 10000;
+
+function etherscanBaseUrlOf(network: Network): string {
+  let networkUrlPart;
+
+  if (network === 'mainnet') {
+    networkUrlPart = 'api.etherscan.io';
+  } else if (network === 'arbitrum') {
+    networkUrlPart = 'api.arbiscan.io';
+  } else if (network === 'basechain') {
+    networkUrlPart = 'api.basescan.org';
+  } else {
+    networkUrlPart = 'api-' + network + '.etherscan.io';
+  }
+
+  return `https://${networkUrlPart}`;
+}
+
+/**
+ * Reads transactions from the `txlist` API of Etherscan-family explorers.
+ */
+export class EtherscanProvider implements TransactionProvider {
+  readonly name = 'etherscan';
+  private readonly apiKey: string;
+  private readonly baseUrls: Partial<Record<Network, string>>;
+
+  /**
+   * @param {string} apiKey - The explorer API key.
+   * @param {Partial<Record<Network, string>>} [baseUrls] - Overrides of the explorer base URL per network.
+   */
+  constructor(apiKey: string, baseUrls: Partial<Record<Network, string>> = {}) {
+    this.apiKey = apiKey;
+    this.baseUrls = baseUrls;
+  }
+
+  supports = (network: Network): boolean => {
+    return !!this.apiKey || this.baseUrls[network] !== undefined;
+  }
+
+  private fetchTransactions = async (
+      network: Network, address: string,
+      startblock: string, endblock: string,
+      page: number = 1, offset: number = etherscanResultWindow
+  ) => {
+    const etherscanAPIBaseURL = this.baseUrls[network] ?? etherscanBaseUrlOf(network);
+    const url = `${etherscanAPIBaseURL}/api?module=account&action=txlist&address=${address}&startblock=${startblock}&endblock=${endblock}&page=${page}&offset=${offset}&sort=asc&apikey=${this.apiKey}`;
+
+    return explorerQueue.schedule(etherscanAPIBaseURL, async () => {
+      let response;
+      try {
+        response = await axios.get(url);
+      } catch (error) {
+        console.error('Error fetching Etherscan transactions:', error);
+        throw new ProviderError(this.name, `${network}scan request failed: ${(error as Error).message}`,
+            axios.isAxiosError(error) && error.response?.status === 429);
+      }
+
+      // Etherscan reports "Max rate limit reached" with a 200 status, so it is detected from the body
+      if (response.data.status === '0' && String(response.data.result).includes('rate limit')) {
+        throw new ProviderError(this.name, `${network}scan API error: ${response.data.result}`, true);
+      }
+      return response;
+    });
+  }
+
+  /**
+   * Fetches the whole transaction history of the address on the network.
+   *
+   * When a response fills the result window, the next query restarts from the last block seen. That block
+   * is requested again because the window may have cut it in half, so transactions are deduplicated by hash.
+   */
+  getTransactionsOf = async (network: Network, address: string, startBlock: number = 0): Promise<TransactionHistory> => {
+    const transactions = new Map<string, GeneralTxItem>();
+    let startblock = String(startBlock);
+
+    while (true) {
+      const response = await this.fetchTransactions(network, address, startblock, 'latest');
+      if (response.data.status === '0' && response.data.message === 'No transactions found') {
+        break;
+      }
+
+      if (response.data.message !== 'OK') {
+        const msg = `${network}scan API error: ${JSON.stringify(response.data)}`;
+        throw new ProviderError(this.name, msg);
+      }
+
+      const result: GeneralTxItem[] = response.data.result;
+      for (const tx of result) {
+        if (!transactions.has(tx.hash)) {
+          transactions.set(tx.hash, tx);
+        }
+      }
+
+      if (result.length < etherscanResultWindow) {
+        break;
+      }
+
+      const lastBlock = result[result.length - 1].blockNumber;
+      if (lastBlock === startblock) {
+        // A single block filling the whole window can't be paged by block range
+        throw new ProviderError(this.name, `more than ${etherscanResultWindow} transactions in block ${lastBlock}`);
+      }
+      startblock = lastBlock;
+    }
+
+    return {transactions: Array.from(transactions.values()), provider: this.name, fromBlock: startBlock, partial: false};
+  }
+}
@@ -0,0 +1,227 @@
+import 'server-only'
+import axios from 'axios';
+import {Hex, hexToBigInt, hexToNumber, numberToHex} from 'viem';
+import type {GeneralTxItem} from "@/client/gasfire/tokenclient";
+import {Network, supportedNetworks} from "@/client/gasfire/networks";
+import type {TransactionHistory, TransactionProvider} from "@/client/gasfire/provider";
+import {ProviderError} from "@/client/gasfire/errors";
+import {rpcQueue} from "@/client/gasfire/queue";
+
+// Number of calls sent in a single JSON-RPC batch
+const batchSize = 50;
+
+export type JsonRpcCall = {
+  method: string,
+  params: unknown[],
+}
+
+type RpcTransaction = {
+  hash: Hex,
+  from: Hex,
+  to: Hex | null,
+  blockNumber: Hex | null, // Null while pending
+  input: Hex,
+}
+
+type RpcMinedTransaction = RpcTransaction & {
+  blockNumber: Hex,
+}
+
+type RpcReceipt = {
+  status: Hex,
+  gasUsed: Hex,
+  effectiveGasPrice?: Hex,
+  l1Fee?: Hex, // Only returned by rollups such as Base
+}
+
+/**
+ * Sends the calls as a JSON-RPC batch.
+ *
+ * @param {string} provider - The name of the calling provider, used in errors.
+ * @param {string} url - The JSON-RPC endpoint.
+ * @param {JsonRpcCall[]} calls - The calls to send.
+ * @returns {Promise<unknown[]>} - The results, in the order of the calls, to be checked by the caller.
+ * @throws {ProviderError} - If the request or one of the calls fails.
+ */
+export async function callJsonRpcBatch(provider: string, url: string, calls: JsonRpcCall[]): Promise<unknown[]> {
+  const body = calls.map((call, id) => ({jsonrpc: '2.0', id, method: call.method, params: call.params}));
+
+  return rpcQueue.schedule(new URL(url).host, async () => {
+    let response;
+    try {
+      response = await axios.post(url, body);
+    } catch (error) {
+      throw new ProviderError(provider, `JSON-RPC request failed: ${(error as Error).message}`,
+          axios.isAxiosError(error) && error.response?.status === 429);
+    }
+
+    const replies: { id: number, result?: unknown, error?: { code: number, message: string } }[] = response.data;
+    if (!Array.isArray(replies)) {
+      throw new ProviderError(provider, `unexpected JSON-RPC response: ${JSON.stringify(response.data)}`);
+    }
+
+    const results: unknown[] = new Array(calls.length);
+    for (const reply of replies) {
+      if (reply.error) {
+        // -32005 is the "limit exceeded" code used by most node providers
+        throw new ProviderError(provider, `JSON-RPC error: ${reply.error.message}`, reply.error.code === -32005);
+      }
+      results[reply.id] = reply.result;
+    }
+    return results;
+  });
+}
+
+function toGeneralTxItem(tx: RpcMinedTransaction, receipt: RpcReceipt): GeneralTxItem {
+  const item: GeneralTxItem = {
+    hash: tx.hash,
+    from: tx.from,
+    to: tx.to ?? '',
+    blockNumber: String(hexToNumber(tx.blockNumber)),
+    methodId: tx.input.slice(0, 10),
+    isError: receipt.status === '0x0' ? '1' : '0',
+    input: tx.input,
+    gasUsed: String(hexToBigInt(receipt.gasUsed)),
+  };
+  if (receipt.effectiveGasPrice) {
+    item.gasPrice = String(hexToBigInt(receipt.effectiveGasPrice));
+  }
+  if (receipt.l1Fee) {
+    item.l1Fee = String(hexToBigInt(receipt.l1Fee));
+  }
+  return item;
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+function isMined(tx: RpcTransaction): tx is RpcMinedTransaction {
+  return tx.blockNumber !== null;
+}
+
+/**
+ * Fetches the receipts of mined transactions. A node that has pruned a receipt can't count the transaction,
+ * so it fails for another provider to be tried.
+ */
+async function fetchReceiptsFor(provider: string, url: string, txs: RpcMinedTransaction[]): Promise<GeneralTxItem[]> {
+  const items: GeneralTxItem[] = [];
+  for (let i = 0; i < txs.length; i += batchSize) {
+    const chunk = txs.slice(i, i + batchSize);
+    const receipts = await callJsonRpcBatch(provider, url,
+        chunk.map(tx => ({method: 'eth_getTransactionReceipt', params: [tx.hash]})));
+    chunk.forEach((tx, j) => {
+      const receipt = receipts[j];
+      if (!isObject(receipt)) {
+        throw new ProviderError(provider, `no receipt for transaction ${tx.hash}`);
+      }
+      items.push(toGeneralTxItem(tx, receipt as RpcReceipt));
+    });
+  }
+  return items;
+}
+
+/**
+ * Fetches the transactions and their receipts by hash.
+ *
+ * @param {string} provider - The name of the calling provider, used in errors.
+ * @param {string} url - The JSON-RPC endpoint.
+ * @param {string[]} hashes - The transaction hashes.
+ * @returns {Promise<GeneralTxItem[]>} - The mined transactions, in ascending block order.
+ *                                      Pending and dropped transactions are skipped.
+ */
+export async function fetchTransactionsByHash(provider: string, url: string, hashes: string[]): Promise<GeneralTxItem[]> {
+  const txs: RpcMinedTransaction[] = [];
+  for (let i = 0; i < hashes.length; i += batchSize) {
+    const chunk = hashes.slice(i, i + batchSize);
+    const results = await callJsonRpcBatch(provider, url,
+        chunk.map(hash => ({method: 'eth_getTransactionByHash', params: [hash]})));
+    for (const result of results) {
+      // Null for a transaction the node doesn't know, e.g. one dropped from the mempool
+      if (isObject(result) && isMined(result as RpcTransaction)) {
+        txs.push(result as RpcMinedTransaction);
+      }
+    }
+  }
+  txs.sort((a, b) => hexToNumber(a.blockNumber) - hexToNumber(b.blockNumber));
+  return fetchReceiptsFor(provider, url, txs);
+}
+
+/**
+ * Reads transactions by scanning the blocks and receipts of a plain JSON-RPC node.
+ * A node has no index by address, so only the latest `maxScanBlocks` blocks are scanned,
+ * and the history is partial when the start block is older.
+ */
+export class JsonRpcProvider implements TransactionProvider {
+  readonly name = 'rpc';
+  private readonly urls: Partial<Record<Network, string>>;
+  private readonly maxScanBlocks: number;
+
+  constructor(urls: Partial<Record<Network, string>>, maxScanBlocks: number = 10000) {
+    this.urls = urls;
+    this.maxScanBlocks = maxScanBlocks;
+  }
+
+  supports = (network: Network): boolean => {
+    return this.urls[network] !== undefined;
+  }
+
+  getTransactionsOf = async (network: Network, address: string, startBlock: number = 0): Promise<TransactionHistory> => {
+    const url = this.urls[network];
+    if (url === undefined) {
+      throw new ProviderError(this.name, `no RPC URL is configured for ${network}`);
+    }
+
+    const [latestHex] = await callJsonRpcBatch(this.name, url, [{method: 'eth_blockNumber', params: []}]);
+    if (typeof latestHex !== 'string') {
+      throw new ProviderError(this.name, `unexpected eth_blockNumber result: ${JSON.stringify(latestHex)}`);
+    }
+    const latest = hexToNumber(latestHex as Hex);
+    const fromBlock = Math.max(startBlock, latest - this.maxScanBlocks + 1);
+    const target = address.toLowerCase();
+
+    const txs: RpcMinedTransaction[] = [];
+    for (let block = fromBlock; block <= latest; block += batchSize) {
+      const calls: JsonRpcCall[] = [];
+      for (let n = block; n < Math.min(block + batchSize, latest + 1); n++) {
+        calls.push({method: 'eth_getBlockByNumber', params: [numberToHex(n), true]});
+      }
+      const blocks = await callJsonRpcBatch(this.name, url, calls);
+      blocks.forEach((result, i) => {
+        const transactions = isObject(result) ? (result as { transactions?: unknown }).transactions : undefined;
+        if (!Array.isArray(transactions)) {
+          throw new ProviderError(this.name, `block ${block + i} is not available`);
+        }
+        txs.push(...(transactions as RpcMinedTransaction[])
+            .filter(tx => tx.from.toLowerCase() === target || tx.to?.toLowerCase() === target));
+      });
+    }
+
+    const transactions = await fetchReceiptsFor(this.name, url, txs);
+    return {transactions, provider: this.name, fromBlock, partial: fromBlock > startBlock};
+  }
+
+  /**
+   * Creates the provider from the `RPC_URL_<NETWORK>` and `RPC_SCAN_MAX_BLOCKS` environment variables.
+   *
+   * @throws {Error} - If `RPC_SCAN_MAX_BLOCKS` is not a positive integer.
+   */
+  static createFromEnv(): JsonRpcProvider {
+    const urls: Partial<Record<Network, string>> = {};
+    for (const network of supportedNetworks) {
+      const url = process.env[`RPC_URL_${network.toUpperCase()}`];
+      if (url) {
+        urls[network] = url;
+      }
+    }
+    const maxScanBlocksParam = process.env.RPC_SCAN_MAX_BLOCKS;
+    let maxScanBlocks: number | undefined = undefined;
+    if (maxScanBlocksParam) {
+      maxScanBlocks = Number(maxScanBlocksParam);
+      if (!Number.isInteger(maxScanBlocks) || maxScanBlocks <= 0) {
+        throw new Error(`Invalid RPC_SCAN_MAX_BLOCKS: ${maxScanBlocksParam}`);
+      }
+    }
+    return new JsonRpcProvider(urls, maxScanBlocks);
+  }
+}
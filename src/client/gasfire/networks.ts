@@ -0,0 +1,30 @@
+export const supportedNetworks = ['mainnet', 'arbitrum', 'basechain', 'sepolia', 'holesky'] as const;
+
+export type Network = typeof supportedNetworks[number];
+
+export const defaultNetworks: Network[] = ['mainnet'];
+
+/**
+ * Parses a comma separated list of networks, e.g. `mainnet,basechain`.
+ *
+ * @param {string | null} param - The raw `chains` query parameter.
+ * @returns {Network[]} - The deduplicated networks, or the default networks when the parameter is empty.
+ * @throws {Error} - If one of the networks is not supported.
+ */
+export function parseNetworks(param: string | null): Network[] {
+  if (!param) {
+    return defaultNetworks;
+  }
+
+  const networks: Network[] = [];
+  for (const name of param.split(',').map(n => n.trim()).filter(n => n.length > 0)) {
+    const network = supportedNetworks.find(n => n === name);
+    if (network === undefined) {
+      throw new Error(`Unsupported network: ${name}`);
+    }
+    if (!networks.includes(network)) {
+      networks.push(network);
+    }
+  }
+  return networks.length > 0 ? networks : defaultNetworks;
+}
@@ -0,0 +1,114 @@
+import 'server-only'
+import type {GeneralTxItem} from "@/client/gasfire/tokenclient";
+import type {Network} from "@/client/gasfire/networks";
+import {EtherscanProvider} from "@/client/gasfire/etherscan";
+import {AlchemyProvider} from "@/client/gasfire/alchemy";
+import {JsonRpcProvider} from "@/client/gasfire/jsonrpc";
+import {ProviderError} from "@/client/gasfire/errors";
+import {CachingProvider, FileCacheStore, MemoryCacheStore} from "@/client/gasfire/cache";
+
+/**
+ * The transactions of an address from the start block on, and the provider that read them.
+ *
+ * A `partial` history only covers the blocks from `fromBlock` on, above the requested start block,
+ * as a node without an index by address only scans recent blocks. It must not be counted as the whole history.
+ */
+export type TransactionHistory = {
+  transactions: GeneralTxItem[],
+  provider: string,
+  fromBlock: number,
+  partial: boolean,
+}
+
+/**
+ * A source of the transaction history of an address.
+ */
+export interface TransactionProvider {
+  readonly name: string;
+
+  /**
+   * Checks whether the provider can serve the network with its current configuration.
+   */
+  supports(network: Network): boolean;
+
+  /**
+   * Fetches the transactions of the address, in ascending block order.
+   *
+   * @param {Network} network - The network to query.
+   * @param {string} address - The address whose transactions are fetched.
+   * @param {number} [startBlock=0] - The first block to include.
+   */
+  getTransactionsOf(network: Network, address: string, startBlock?: number): Promise<TransactionHistory>;
+}
+
+/**
+ * Tries each provider in order and falls back to the next one when a provider errors or rate-limits,
+ * or only returns a partial history. A partial history is returned when no provider reads the whole one.
+ */
+export class FallbackProvider implements TransactionProvider {
+  readonly name = 'fallback';
+  private readonly providers: TransactionProvider[];
+
+  constructor(providers: TransactionProvider[]) {
+    this.providers = providers;
+  }
+
+  supports = (network: Network): boolean => {
+    return this.providers.some(provider => provider.supports(network));
+  }
+
+  getTransactionsOf = async (network: Network, address: string, startBlock: number = 0): Promise<TransactionHistory> => {
+    const candidates = this.providers.filter(provider => provider.supports(network));
+    if (candidates.length === 0) {
+      throw new ProviderError(this.name, `no provider is configured for ${network}`);
+    }
+
+    let lastError: unknown;
+    let partial: TransactionHistory | undefined;
+    for (const provider of candidates) {
+      try {
+        const history = await provider.getTransactionsOf(network, address, startBlock);
+        if (!history.partial) {
+          return history;
+        }
+        console.warn(`${provider.name} only read ${network} from block ${history.fromBlock}, trying the next provider`);
+        partial = partial ?? history;
+      } catch (error) {
+        console.warn(`${provider.name} failed for ${network}, falling back to the next provider:`, error);
+        lastError = error;
+      }
+    }
+    if (partial) {
+      return partial;
+    }
+    throw lastError;
+  }
+}
+
+/**
+ * Creates the providers listed in the `TX_PROVIDERS` environment variable, e.g. `etherscan,alchemy,rpc`.
+ *
+ * Histories are cached for `TX_CACHE_TTL_SECONDS`, in memory or in `TX_CACHE_DIR` when it is set.
+ *
+ * @returns {TransactionProvider} - The providers wrapped with fallback in the configured order.
+ */
+export function createTransactionProvider(): TransactionProvider {
+  const names = (process.env.TX_PROVIDERS || 'etherscan')
+      .split(',').map(name => name.trim()).filter(name => name.length > 0);
+
+  const providers = names.map((name): TransactionProvider => {
+    switch (name) {
+      case 'etherscan':
+        return new EtherscanProvider(process.env.ETHERSCAN_API_KEY!!);
+      case 'alchemy':
+        return new AlchemyProvider(process.env.ALCHEMY_API_KEY!!);
+      case 'rpc':
+        return JsonRpcProvider.createFromEnv();
+      default:
+        throw new Error(`Unsupported transaction provider: ${name}`);
+    }
+  });
+  const store = process.env.TX_CACHE_DIR ? new FileCacheStore(process.env.TX_CACHE_DIR) : new MemoryCacheStore();
+  const ttlSeconds = Number(process.env.TX_CACHE_TTL_SECONDS || 300);
+  return new CachingProvider(new FallbackProvider(providers), store, ttlSeconds * 1000);
+}
@@ -0,0 +1,70 @@
+import 'server-only'
+import {ProviderError} from "@/client/gasfire/errors";
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Spaces requests sharing a key so that they respect a per-key rate limit,
+ * and retries rate-limited requests with jittered exponential backoff.
+ */
+export class RequestQueue {
+  private readonly intervalMs: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly nextSlots = new Map<string, number>();
+
+  /**
+   * @param {number} requestsPerSecond - The number of requests allowed per second for each key.
+   * @param {number} [maxRetries=5] - The number of retries of a rate-limited request.
+   * @param {number} [baseDelayMs=500] - The backoff delay of the first retry.
+   */
+  constructor(requestsPerSecond: number, maxRetries: number = 5, baseDelayMs: number = 500) {
+    this.intervalMs = 1000 / requestsPerSecond;
+    this.maxRetries = maxRetries;
+    this.baseDelayMs = baseDelayMs;
+  }
+
+  private waitForSlot = async (key: string) => {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlots.get(key) ?? 0);
+    this.nextSlots.set(key, slot + this.intervalMs);
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+
+  /**
+   * Runs the task once a slot of the key is free.
+   *
+   * @param {string} key - The rate limit key, e.g. the API host.
+   * @param {() => Promise<T>} task - The request to run. A `ProviderError` flagged as rate-limited triggers a retry.
+   * @returns {Promise<T>} - The result of the task.
+   */
+  schedule = async <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForSlot(key);
+      try {
+        return await task();
+      } catch (error) {
+        if (!(error instanceof ProviderError && error.rateLimited) || attempt >= this.maxRetries) {
+          throw error;
+        }
+        const backoff = this.baseDelayMs * 2 ** attempt;
+        await sleep(backoff / 2 + Math.random() * backoff);
+      }
+    }
+  }
+}
+
+/**
+ * The queue shared by all explorer requests, limited by `EXPLORER_RATE_LIMIT` requests per second.
+ */
+export const explorerQueue = new RequestQueue(Number(process.env.EXPLORER_RATE_LIMIT || 5));
+
+/**
+ * The queue of JSON-RPC node requests, limited by `RPC_RATE_LIMIT` batches per second per host.
+ * Nodes serve far more requests than explorers, and a block scan sends hundreds of batches.
+ */
+export const rpcQueue = new RequestQueue(Number(process.env.RPC_RATE_LIMIT || 25));
@@ -0,0 +1,72 @@
+import type {GeneralTxItem} from "@/client/gasfire/tokenclient";
+
+/**
+ * Rules deciding which transactions count towards the gas used by an address.
+ * The applied rules are returned by the verify API so that a mint can be audited later.
+ */
+export type GasCountingRules = {
+  sender_only: boolean,
+  exclude_failed: boolean,
+  to_allowlist?: string[],
+  method_ids?: string[],
+}
+
+function parseFlag(value: string | undefined, defaultValue: boolean): boolean {
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+  return value.toLowerCase() === 'true' || value === '1';
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  const items = (value ?? '').split(',').map(item => item.trim().toLowerCase()).filter(item => item.length > 0);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Loads the counting rules of this deployment from the environment.
+ *
+ * @returns {GasCountingRules} - Sender-only and failed transaction exclusion are enabled unless disabled explicitly.
+ */
+export function loadGasCountingRules(): GasCountingRules {
+  const rules: GasCountingRules = {
+    sender_only: parseFlag(process.env.GAS_COUNT_SENDER_ONLY, true),
+    exclude_failed: parseFlag(process.env.GAS_COUNT_EXCLUDE_FAILED, true),
+  };
+  const toAllowlist = parseList(process.env.GAS_COUNT_TO_ALLOWLIST);
+  if (toAllowlist) {
+    rules.to_allowlist = toAllowlist;
+  }
+  const methodIds = parseList(process.env.GAS_COUNT_METHOD_IDS);
+  if (methodIds) {
+    rules.method_ids = methodIds;
+  }
+  return rules;
+}
+
+/**
+ * Checks whether the transaction counts towards the gas used by the address.
+ *
+ * @param {GeneralTxItem} tx - The transaction to check.
+ * @param {string} address - The address whose activity is counted.
+ * @param {GasCountingRules} rules - The rules to apply.
+ * @returns {boolean} - True if the transaction is counted.
+ */
+export function isCountedTransaction(tx: GeneralTxItem, address: string, rules: GasCountingRules): boolean {
+  if (rules.sender_only && tx.from.toLowerCase() !== address.toLowerCase()) {
+    return false;
+  }
+  if (rules.exclude_failed && tx.isError === '1') {
+    return false;
+  }
+  if (rules.to_allowlist && !rules.to_allowlist.includes((tx.to ?? '').toLowerCase())) {
+    return false;
+  }
+  if (rules.method_ids) {
+    const methodId = (tx.methodId ?? tx.input?.slice(0, 10) ?? '').toLowerCase();
+    if (!rules.method_ids.includes(methodId)) {
+      return false;
+    }
+  }
+  return true;
+}
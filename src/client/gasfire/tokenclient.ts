@@ -1,38 +1,21 @@
 import 'server-only'
-import axios from 'axios';
+import {GasCountingRules, isCountedTransaction, loadGasCountingRules} from "@/client/gasfire/rules";
+import {defaultNetworks, Network} from "@/client/gasfire/networks";
+import {createTransactionProvider, TransactionProvider} from "@/client/gasfire/provider";
+import {ProviderError} from "@/client/gasfire/errors";
 
-export type TokenActivity = {
-  sender_address: string,
-  gas_used: bigint
+export type ChainActivity = {
+  network: Network,
+  gas_used: bigint,
+  fee_paid: bigint
 }
 
-async function fetchEtherscanTransactions(
-    network: string, address: string,
-    startblock: string, endblock: string
-) {
-  const api_key = process.env.ETHERSCAN_API_KEY!!;
-  let networkUrlPart;
-
-  if (network === 'mainnet') {
-    networkUrlPart = 'api.etherscan.io';
-  } else if (network === 'arbitrum') {
-    networkUrlPart = 'api.arbiscan.io';
-  } else if (network === 'basechain') {
-    networkUrlPart = 'api.basescan.org';
-  } else {
-    networkUrlPart = 'api-' + network + '.etherscan.io';
-  }
-
-  const etherscanAPIBaseURL = `https://${networkUrlPart}`;
-  const url = `${etherscanAPIBaseURL}/api?module=account&action=txlist&address=${address}&startblock=${startblock}&endblock=${endblock}&sort=desc&apikey=${api_key}`;
-
-  try {
-    const response = await axios.get(url);
-    return response;
-  } catch (error) {
-    console.error('Error fetching Etherscan transactions:', error);
-    throw error;
-  }
+export type TokenActivity = {
+  sender_address: string,
+  gas_used: bigint,
+  fee_paid: bigint,
+  chains: ChainActivity[],
+  rules: GasCountingRules
 }
 
 export type GeneralTxItem = {
@@ -44,25 +27,47 @@ export type GeneralTxItem = {
   isError?: string; // This might be specific to Etherscan
   input?: string; // For Alchemy's transaction data
   gasUsed: string;
+  gasPrice?: string; // Effective gas price in wei
+  l1Fee?: string; // L1 data fee of rollups, where the explorer exposes it
 };
 
-export async function getTokenActivityBy(address: string): Promise<TokenActivity> {
-  const transactions = await getTransactionsOf(address);
-  const gasUsed = transactions.reduce((acc, tx) => acc + BigInt(tx.gasUsed), BigInt(0));
-  return {sender_address: address, gas_used: gasUsed};
+/**
+ * Calculates the fee paid for the transaction in wei, including the L1 data fee of rollups.
+ *
+ * @param {GeneralTxItem} tx - The transaction.
+ * @returns {bigint} - The effective fee in wei.
+ */
+function feeOf(tx: GeneralTxItem): bigint {
+  return BigInt(tx.gasUsed) * BigInt(tx.gasPrice || 0) + BigInt(tx.l1Fee || 0);
 }
 
-async function getTransactionsOf(address: string): Promise<GeneralTxItem[]> {
-  const network = 'mainnet';
-  const response = await fetchEtherscanTransactions(network, address, '0', 'latest');
-  if (response.data.status === '0' && response.data.message === 'No transactions found') {
-    return [];
-  }
+let transactionProvider: TransactionProvider | undefined;
 
-  if (response.data.message !== 'OK') {
-    const msg = `${network}scan API error: ${JSON.stringify(response.data)}`;
-    throw new Error(`${network}scan API failed: ${msg}`);
+function getTransactionProvider(): TransactionProvider {
+  if (transactionProvider === undefined) {
+    transactionProvider = createTransactionProvider();
   }
+  return transactionProvider;
+}
 
-  return response.data.result;
-}
\ No newline at end of file
+export async function getTokenActivityBy(
+    address: string, networks: Network[] = defaultNetworks,
+    rules: GasCountingRules = loadGasCountingRules(),
+    provider: TransactionProvider = getTransactionProvider()
+): Promise<TokenActivity> {
+  const chains = await Promise.all(networks.map(async (network): Promise<ChainActivity> => {
+    const history = await provider.getTransactionsOf(network, address);
+    if (history.partial) {
+      // Counting the recent blocks alone would report and sign an undercounted total
+      throw new ProviderError(history.provider,
+          `only the blocks from ${history.fromBlock} on could be read on ${network}, so the history is incomplete`);
+    }
+    const transactions = history.transactions.filter(tx => isCountedTransaction(tx, address, rules));
+    const gasUsed = transactions.reduce((acc, tx) => acc + BigInt(tx.gasUsed), BigInt(0));
+    const feePaid = transactions.reduce((acc, tx) => acc + feeOf(tx), BigInt(0));
+    return {network, gas_used: gasUsed, fee_paid: feePaid};
+  }));
+  const gasUsed = chains.reduce((acc, chain) => acc + chain.gas_used, BigInt(0));
+  const feePaid = chains.reduce((acc, chain) => acc + chain.fee_paid, BigInt(0));
+  return {sender_address: address, gas_used: gasUsed, fee_paid: feePaid, chains, rules};
+}
@@ -0,0 +1,95 @@
+import {BezierFire, BezierLine, Point} from "@/render/gasfire/bezierfire";
+import {XorShift} from "@/render/gasfire/xorshift";
+
+export type AnimationFrame = {
+  frame: number,
+  frames: number,
+  amplitude: number,
+}
+
+export const defaultAnimation = {
+  frames: 24,
+  fps: 12,
+  amplitude: 6,
+};
+
+// Harmonics of the loop period; integer multiples keep the noise seamless
+const harmonics = [1, 2];
+const phaseSteps = 3600;
+
+type Wave = {
+  phase: number,
+  weight: number,
+}
+
+/**
+ * Deterministic noise perturbing the control points of the flames over a looping animation.
+ */
+export class FlameNoise {
+  private readonly xorShift: XorShift;
+  private readonly waves = new Map<string, Wave[]>();
+
+  constructor(xorShift: XorShift) {
+    this.xorShift = xorShift;
+  }
+
+  private wavesOf = (key: string): Wave[] => {
+    let waves = this.waves.get(key);
+    if (waves === undefined) {
+      waves = harmonics.map(() => ({
+        phase: this.xorShift.nextIntBet(0, phaseSteps) / phaseSteps * 2 * Math.PI,
+        weight: 0.5 + this.xorShift.nextIntBet(0, phaseSteps) / phaseSteps / 2,
+      }));
+      this.waves.set(key, waves);
+    }
+    return waves;
+  }
+
+  /**
+   * Samples the noise of a coordinate. The noise is exactly zero on frame 0 and periodic over the frames.
+   *
+   * @param {string} key - The identifier of the perturbed coordinate.
+   * @param {AnimationFrame} animation - The frame to sample.
+   * @returns {number} - The offset, within the amplitude.
+   */
+  sample = (key: string, animation: AnimationFrame): number => {
+    const t = 2 * Math.PI * animation.frame / animation.frames;
+    const waves = this.wavesOf(key);
+    const total = waves.reduce((acc, wave) => acc + wave.weight * 2, 0);
+    const offset = waves.reduce(
+        (acc, wave, i) => acc + wave.weight * (Math.sin(harmonics[i] * t + wave.phase) - Math.sin(wave.phase)), 0);
+    return animation.amplitude * offset / total;
+  }
+
+  /**
+   * Perturbs the flames for the frame. Points move more towards the tips, so the base of the flames stays still.
+   *
+   * @param {BezierFire[]} fires - The static flames.
+   * @param {number[]} seedHeights - The height of the seed of each flame, from the top of its frame to its fire base,
+   *                                 over which the points gain their full freedom.
+   * @param {AnimationFrame} animation - The frame to render.
+   * @returns {BezierFire[]} - The perturbed flames.
+   */
+  perturb = (fires: BezierFire[], seedHeights: number[], animation: AnimationFrame): BezierFire[] => {
+    return fires.map((fire, i) => {
+      const height = Math.max(seedHeights[i], 1);
+      const move = (point: Point, key: string): Point => {
+        const freedom = Math.min(Math.max((fire.fireBase.y - point.y) / height, 0), 1);
+        return {
+          x: point.x + freedom * this.sample(`${i}:${key}:x`, animation),
+          y: point.y + freedom * this.sample(`${i}:${key}:y`, animation),
+        };
+      };
+
+      const points = fire.points.map((point, j): BezierLine => {
+        const cp1 = move({x: point.cp1x, y: point.cp1y}, `${j}:cp1`);
+        const cp2 = move({x: point.cp2x, y: point.cp2y}, `${j}:cp2`);
+        const end = move({x: point.x, y: point.y}, `${j}:end`);
+        return {cp1x: cp1.x, cp1y: cp1.y, cp2x: cp2.x, cp2y: cp2.y, x: end.x, y: end.y};
+      });
+      // The path starts where the last segment ends, so both share the same noise to stay closed
+      const start = move(fire.start, `${fire.points.length - 1}:end`);
+      return new BezierFire(fire.frame, start, points, fire.fireBase);
+    });
+  }
+}
@@ -1,3 +1,14 @@
+import {
+  applyMatrixTo,
+  composeMatrices,
+  Matrix,
+  MirrorAxis,
+  mirrorMatrix,
+  rotationMatrix,
+  scalingMatrix,
+  skewMatrix
+} from "@/render/gasfire/matrix";
+
 export type Point = {
   x: number, y: number,
 }
@@ -95,6 +106,67 @@ export class BezierFire {
     return { x: sumX / (this.points.length * samples), y: sumY / (this.points.length * samples) };
   }
 
+  /**
+   * Finds the parameters in (0, 1) where the derivative of a cubic Bézier coordinate is zero.
+   *
+   * @param {number} p0 - The start coordinate.
+   * @param {number} p1 - The 1st control coordinate.
+   * @param {number} p2 - The 2nd control coordinate.
+   * @param {number} p3 - The end coordinate.
+   * @returns {number[]} - The parameters of the local extremes.
+   */
+  private getExtremeParams = (p0: number, p1: number, p2: number, p3: number): number[] => {
+    // B'(t) / 3 = a t^2 + b t + c
+    const a = -p0 + 3 * p1 - 3 * p2 + p3;
+    const b = 2 * (p0 - 2 * p1 + p2);
+    const c = p1 - p0;
+    const epsilon = 1e-12;
+
+    let roots: number[];
+    if (Math.abs(a) < epsilon) {
+      roots = Math.abs(b) < epsilon ? [] : [-c / b];
+    } else {
+      const discriminant = b * b - 4 * a * c;
+      if (discriminant < 0) {
+        roots = [];
+      } else {
+        const sqrt = Math.sqrt(discriminant);
+        roots = [(-b + sqrt) / (2 * a), (-b - sqrt) / (2 * a)];
+      }
+    }
+    return roots.filter(t => t > 0 && t < 1);
+  }
+
+  /**
+   * Calculates the exact bounding box of the path, including the extremes between the end points.
+   *
+   * @returns {Rect} - The smallest rectangle containing the path.
+   */
+  calculateBoundingBox = (): Rect => {
+    let x1 = this.start.x, y1 = this.start.y, x2 = this.start.x, y2 = this.start.y;
+
+    for (let i = 0; i < this.points.length; i++) {
+      const p0 = i === 0 ? this.start : this.points[i - 1];
+      const p1 = this.points[i];
+      const cp1 = {x: p1.cp1x, y: p1.cp1y};
+      const cp2 = {x: p1.cp2x, y: p1.cp2y};
+      const end = {x: p1.x, y: p1.y};
+
+      const params = [1]
+          .concat(this.getExtremeParams(p0.x, cp1.x, cp2.x, end.x))
+          .concat(this.getExtremeParams(p0.y, cp1.y, cp2.y, end.y));
+      for (const t of params) {
+        const pt = this.getBezierPoint(t, p0, cp1, cp2, end);
+        x1 = Math.min(x1, pt.x);
+        y1 = Math.min(y1, pt.y);
+        x2 = Math.max(x2, pt.x);
+        y2 = Math.max(y2, pt.y);
+      }
+    }
+
+    return {x1, y1, x2, y2};
+  }
+
   /**
    * Applies a scaling transformation to the given bezier fire object.
    *
@@ -165,4 +237,89 @@ export class BezierFire {
           y: this.fireBase.y + offsetY,
         });
   }
-}
\ No newline at end of file
+
+  /**
+   * Applies a matrix to the start, the curves and the fire base, and bounds the result with a new frame.
+   *
+   * Affine matrices map the curves exactly. The control points of a projective matrix are mapped as they are,
+   * approximating the projected curves.
+   *
+   * @param {Matrix} matrix - The 3x3 matrix by rows.
+   * @returns {BezierFire} - The transformed bezier fire object, whose frame is its exact bounding box.
+   */
+  applyMatrix = (matrix: Matrix): BezierFire => {
+    const [sx, sy] = applyMatrixTo(matrix, this.start.x, this.start.y);
+    const [fbx, fby] = applyMatrixTo(matrix, this.fireBase.x, this.fireBase.y);
+    const points = this.points.map(point => {
+      const [cp1x, cp1y] = applyMatrixTo(matrix, point.cp1x, point.cp1y);
+      const [cp2x, cp2y] = applyMatrixTo(matrix, point.cp2x, point.cp2y);
+      const [x, y] = applyMatrixTo(matrix, point.x, point.y);
+      return {cp1x, cp1y, cp2x, cp2y, x, y};
+    });
+
+    const start = {x: sx, y: sy};
+    const fireBase = {x: fbx, y: fby};
+    const bounds = new BezierFire(this.frame, start, points, fireBase).calculateBoundingBox();
+    return new BezierFire(bounds, start, points, fireBase);
+  }
+
+  /**
+   * Applies a chain of matrices.
+   *
+   * @param {Matrix[]} matrices - The matrices, in the order they apply.
+   * @returns {BezierFire} - The transformed bezier fire object, whose frame is its exact bounding box.
+   */
+  transform = (...matrices: Matrix[]): BezierFire => {
+    return this.applyMatrix(composeMatrices(...matrices));
+  }
+
+  /**
+   * Rotates the BezierFire object around the center, clockwise on screen for a positive angle.
+   *
+   * @param {number} centerX - The x-coordinate of the center of the rotation.
+   * @param {number} centerY - The y-coordinate of the center of the rotation.
+   * @param {number} radian - The angle in radians.
+   * @returns {BezierFire} - The rotated bezier fire object.
+   */
+  rotate = (centerX: number, centerY: number, radian: number): BezierFire => {
+    return this.applyMatrix(rotationMatrix(centerX, centerY, radian));
+  }
+
+  /**
+   * Scales the BezierFire object from the center by a factor per axis.
+   *
+   * @param {number} centerX - The x-coordinate of the center point of the scaling operation.
+   * @param {number} centerY - The y-coordinate of the center point of the scaling operation.
+   * @param {number} scaleX - The horizontal factor.
+   * @param {number} scaleY - The vertical factor.
+   * @returns {BezierFire} - The scaled bezier fire object.
+   */
+  scaleXY = (centerX: number, centerY: number, scaleX: number, scaleY: number): BezierFire => {
+    return this.applyMatrix(scalingMatrix(centerX, centerY, scaleX, scaleY));
+  }
+
+  /**
+   * Skews the BezierFire object around the center.
+   *
+   * @param {number} centerX - The x-coordinate of the center, which stays in place.
+   * @param {number} centerY - The y-coordinate of the center, which stays in place.
+   * @param {number} angleX - The angle in radians the vertical lines lean by.
+   * @param {number} angleY - The angle in radians the horizontal lines lean by.
+   * @returns {BezierFire} - The skewed bezier fire object.
+   */
+  skew = (centerX: number, centerY: number, angleX: number, angleY: number): BezierFire => {
+    return this.applyMatrix(skewMatrix(centerX, centerY, angleX, angleY));
+  }
+
+  /**
+   * Mirrors the BezierFire object across the vertical or the horizontal line through the center.
+   *
+   * @param {number} centerX - The x-coordinate the vertical axis goes through.
+   * @param {number} centerY - The y-coordinate the horizontal axis goes through.
+   * @param {MirrorAxis} axis - `vertical` swaps left and right, `horizontal` swaps top and bottom.
+   * @returns {BezierFire} - The mirrored bezier fire object.
+   */
+  mirror = (centerX: number, centerY: number, axis: MirrorAxis): BezierFire => {
+    return this.applyMatrix(mirrorMatrix(centerX, centerY, axis));
+  }
+}
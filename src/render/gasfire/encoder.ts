@@ -0,0 +1,72 @@
+import {createCanvas} from '@napi-rs/canvas';
+import {applyPalette, GIFEncoder, quantize} from 'gifenc';
+import UPNG from 'upng-js';
+import {renderImage, RenderOptions} from "@/render/gasfire/render";
+import type {ActivityMetric} from "@/utils/metric";
+
+export type AnimationFormat = 'gif' | 'apng';
+
+export type AnimationOptions = {
+  frames: number,
+  fps: number,
+  amplitude: number,
+}
+
+function encodeGif(frames: Uint8ClampedArray[], width: number, height: number, delay: number): Buffer {
+  const gif = GIFEncoder();
+  for (const rgba of frames) {
+    const palette = quantize(rgba, 256, {format: 'rgba4444', oneBitAlpha: true});
+    const index = applyPalette(rgba, palette, 'rgba4444');
+    const transparentIndex = palette.findIndex(color => color[3] === 0);
+    gif.writeFrame(index, width, height, {
+      palette,
+      delay,
+      transparent: transparentIndex >= 0,
+      transparentIndex: Math.max(transparentIndex, 0),
+      // Restore to the background so that transparent pixels don't show the previous frame
+      dispose: 2,
+    });
+  }
+  gif.finish();
+  return Buffer.from(gif.bytes());
+}
+
+function encodeApng(frames: Uint8ClampedArray[], width: number, height: number, delay: number): Buffer {
+  const buffers = frames.map(rgba => rgba.buffer.slice(rgba.byteOffset, rgba.byteOffset + rgba.byteLength));
+  return Buffer.from(UPNG.encode(buffers, width, height, 0, frames.map(() => delay)));
+}
+
+/**
+ * Renders the looping flame animation of the address and encodes it. The first frame matches the static image.
+ *
+ * @param {number} width - The width of the animation.
+ * @param {number} height - The height of the animation.
+ * @param {string} address - The address seeding the flame shapes.
+ * @param {bigint} value - The activity metric value deciding the tier.
+ * @param {ActivityMetric} metric - The metric of the value.
+ * @param {RenderOptions} options - The options of each frame.
+ * @param {AnimationOptions} animation - The frame count, frame rate and noise amplitude.
+ * @param {AnimationFormat} format - The animated image format.
+ * @returns {Promise<Buffer>} - The encoded animation.
+ */
+export async function renderAnimation(
+    width: number, height: number,
+    address: string, value: bigint, metric: ActivityMetric,
+    options: RenderOptions, animation: AnimationOptions, format: AnimationFormat
+): Promise<Buffer> {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+
+  const frames: Uint8ClampedArray[] = [];
+  for (let frame = 0; frame < animation.frames; frame++) {
+    ctx.clearRect(0, 0, width, height);
+    renderImage(ctx, width, height, address, value, metric, {
+      ...options,
+      animation: {frame, frames: animation.frames, amplitude: animation.amplitude},
+    });
+    frames.push(ctx.getImageData(0, 0, width, height).data);
+  }
+
+  const delay = Math.round(1000 / animation.fps);
+  return format === 'gif' ? encodeGif(frames, width, height, delay) : encodeApng(frames, width, height, delay);
+}
@@ -1,9 +1,55 @@
 import {XorShift} from "@/render/gasfire/xorshift";
-import {ProjectiveTransform} from "@/render/gasfire/projection";
+import {DegenerateTransformError, ProjectiveTransform} from "@/render/gasfire/projection";
 import {BezierFire, Point, Rect} from "@/render/gasfire/bezierfire";
-import {SKRSContext2D as SSContext2D} from '@napi-rs/canvas';
+import {DrawingSurface} from "@/render/gasfire/surface";
 import {drawArc, drawRect} from "@/render/gasfire/utils";
 
+/**
+ * The bar sampled by a projection generator, in canvas coordinates and radians.
+ * The bar is sampled within `barRangeOfMotion`, and its angle between `startAngle` and `endAngle` or opposite them.
+ */
+export type ProjectionSample = {
+  barLength: number,
+  barRangeOfMotion: Rect,
+  midpoint: Point,
+  startAngle: number,
+  endAngle: number,
+  angle: number,
+}
+
+/**
+ * The projection of a seed: the transform and the bar it was generated from, after `rejectedSamples` bars
+ * whose transform was degenerate. Without a bar, every sample was rejected and the transform is the identity.
+ */
+export type Projection = {
+  transform: ProjectiveTransform,
+  sample?: ProjectionSample,
+  rejectedSamples: number,
+}
+
+// The bars sampled before the seed is left as it is
+const maxSamples = 8;
+
+/**
+ * Draws the ranges a bar was sampled from: the range of motion of its midpoint and the arcs of its angle.
+ *
+ * @param {DrawingSurface} ctx - The surface to draw on, with the stroke style set.
+ * @param {ProjectionSample} sample - The sampled bar.
+ */
+export function drawProjectionSample(ctx: DrawingSurface, sample: ProjectionSample) {
+  const {barRangeOfMotion, midpoint, startAngle, endAngle} = sample;
+  const radius = sample.barLength / 2;
+  drawRect(ctx, [
+    [barRangeOfMotion.x1, barRangeOfMotion.y1],
+    [barRangeOfMotion.x2, barRangeOfMotion.y1],
+    [barRangeOfMotion.x2, barRangeOfMotion.y2],
+    [barRangeOfMotion.x1, barRangeOfMotion.y2],
+  ]);
+
+  drawArc(ctx, midpoint.x, midpoint.y, radius, startAngle, endAngle);
+  drawArc(ctx, midpoint.x, midpoint.y, radius, startAngle + Math.PI, endAngle + Math.PI);
+}
+
 /**
  * Represents a projection generator for creating projective transforms.
  */
@@ -101,12 +147,11 @@ export class ProjectionGenerator {
   }
 
   /**
-   * Transforms the coordinates of the seed frame to create a projective transform based on a bar shape.
+   * Samples the bar the top of the seed frame is projected onto: its length, its midpoint and its angle.
    *
-   * @param {SSContext2D|CanvasRenderingContext2D} ctx - Optional. The rendering context used for debugging.
-   * @returns {ProjectiveTransform} - The projective transform generated based on the bar shape.
+   * @returns {ProjectionSample} - The sampled bar, with the ranges it was sampled from.
    */
-  nextTransform(ctx?: SSContext2D | CanvasRenderingContext2D): ProjectiveTransform {
+  nextSample = (): ProjectionSample => {
     const minWidth = 51;
     const frameWidth = this.seed.frame.x2 - this.seed.frame.x1;
     const frameHeight = this.seed.frame.y2 - this.seed.frame.y1;
@@ -120,39 +165,30 @@ export class ProjectionGenerator {
       y2: this.seed.frame.y1 + frameHeight / 2
     }
 
-    const {x: midpointX, y: midpointY} = this.determineCenterPoint(barRangeOfMotion);
-    const [startAngle, endAngle] = this.calcBarAngleRange(midpointX, midpointY);
-    const barAngleRad = this.determineBarAngleRad(startAngle, endAngle);
-
-    const baseLeftTopPoint = {x: midpointX - radius, y: midpointY};
-    const baseRightTopPoint = {x: midpointX + radius, y: midpointY};
-    const {x: x1, y: y1} = this.rotate(midpointX, midpointY, baseLeftTopPoint, barAngleRad);
-    const {x: x2, y: y2} = this.rotate(midpointX, midpointY, baseRightTopPoint, barAngleRad);
-
-    // For debug usage
-    if (ctx) {
-      console.log('startAngle: ', startAngle * 180 / Math.PI);
-      console.log('endAngle: ', endAngle * 180 / Math.PI);
-      console.log('angle: ', barAngleRad * 180 / Math.PI);
-
-      drawRect(ctx, [
-        [barRangeOfMotion.x1, barRangeOfMotion.y1],
-        [barRangeOfMotion.x2, barRangeOfMotion.y1],
-        [barRangeOfMotion.x2, barRangeOfMotion.y2],
-        [barRangeOfMotion.x1, barRangeOfMotion.y2],
-      ]);
-
-      drawArc(ctx, midpointX, midpointY, radius, startAngle, endAngle);
-      drawArc(ctx, midpointX, midpointY, radius, startAngle + Math.PI, endAngle + Math.PI);
-    }
+    const midpoint = this.determineCenterPoint(barRangeOfMotion);
+    const [startAngle, endAngle] = this.calcBarAngleRange(midpoint.x, midpoint.y);
+    const angle = this.determineBarAngleRad(startAngle, endAngle);
+
+    return {barLength, barRangeOfMotion, midpoint, startAngle, endAngle, angle};
+  }
+
+  /**
+   * Creates the projective transform of the seed frame onto a sampled bar.
+   *
+   * @param {ProjectionSample} sample - The bar from `nextSample`.
+   * @returns {ProjectiveTransform} - The projective transform generated based on the bar shape.
+   * @throws {DegenerateTransformError} - If the bar makes the projected frame degenerate, twisted or mirrored.
+   */
+  transformOf = (sample: ProjectionSample): ProjectiveTransform => {
+    const {midpoint, angle} = sample;
+    const radius = sample.barLength / 2;
+    const baseLeftTopPoint = {x: midpoint.x - radius, y: midpoint.y};
+    const baseRightTopPoint = {x: midpoint.x + radius, y: midpoint.y};
+    const {x: x1, y: y1} = this.rotate(midpoint.x, midpoint.y, baseLeftTopPoint, angle);
+    const {x: x2, y: y2} = this.rotate(midpoint.x, midpoint.y, baseRightTopPoint, angle);
 
     return ProjectiveTransform.createTransformBy({
-      src: [
-        [this.seed.frame.x1, this.seed.frame.y1],
-        [this.seed.frame.x2, this.seed.frame.y1],
-        [this.seed.frame.x2, this.seed.frame.y2],
-        [this.seed.frame.x1, this.seed.frame.y2],
-      ],
+      src: this.frameQuad(),
       dest: [
         [x1, y1],
         [x2, y2],
@@ -162,6 +198,49 @@ export class ProjectionGenerator {
     });
   }
 
+  /**
+   * Samples bars until one projects the seed frame onto a convex quad of the same orientation.
+   * The rejected bars are consumed from the sequence, so the projection stays deterministic.
+   *
+   * @returns {Projection} - The projection, the identity when `maxSamples` bars were rejected.
+   */
+  nextProjection = (): Projection => {
+    for (let rejectedSamples = 0; rejectedSamples < maxSamples; rejectedSamples++) {
+      const sample = this.nextSample();
+      try {
+        return {transform: this.transformOf(sample), sample, rejectedSamples};
+      } catch (e) {
+        if (!(e instanceof DegenerateTransformError)) {
+          throw e;
+        }
+      }
+    }
+    return {transform: ProjectiveTransform.createIdentityBy(this.frameQuad()), rejectedSamples: maxSamples};
+  }
+
+  /**
+   * Transforms the coordinates of the seed frame to create a projective transform based on a bar shape.
+   *
+   * @param {DrawingSurface} ctx - Optional. The rendering context the sampling ranges are drawn on for debugging.
+   * @returns {ProjectiveTransform} - The projective transform generated based on the bar shape.
+   */
+  nextTransform(ctx?: DrawingSurface): ProjectiveTransform {
+    const projection = this.nextProjection();
+    if (ctx && projection.sample) {
+      drawProjectionSample(ctx, projection.sample);
+    }
+    return projection.transform;
+  }
+
+  private frameQuad = (): number[][] => {
+    return [
+      [this.seed.frame.x1, this.seed.frame.y1],
+      [this.seed.frame.x2, this.seed.frame.y1],
+      [this.seed.frame.x2, this.seed.frame.y2],
+      [this.seed.frame.x1, this.seed.frame.y2],
+    ];
+  }
+
   /**
    * Creates a new projection generator object based on the provided parameters.
    *
@@ -0,0 +1,91 @@
+/**
+ * A 3x3 matrix by rows, transforming the homogeneous point (x, y, 1).
+ * Affine matrices have a last row of (0, 0, 1), projective ones may not.
+ */
+export type Matrix = number[];
+
+export type MirrorAxis = 'vertical' | 'horizontal';
+
+export const identityMatrix: Matrix = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+/**
+ * Multiplies two matrices, the product applying `b` first and then `a`.
+ *
+ * @param {Matrix} a - The matrix applied last.
+ * @param {Matrix} b - The matrix applied first.
+ * @returns {Matrix} - The product `a * b`.
+ */
+export function multiplyMatrices(a: Matrix, b: Matrix): Matrix {
+  const product: Matrix = new Array(9);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      product[row * 3 + col] = a[row * 3] * b[col] + a[row * 3 + 1] * b[3 + col] + a[row * 3 + 2] * b[6 + col];
+    }
+  }
+  return product;
+}
+
+/**
+ * Chains matrices into one.
+ *
+ * @param {Matrix[]} matrices - The matrices, in the order they apply.
+ * @returns {Matrix} - The matrix applying all of them, the identity for none.
+ */
+export function composeMatrices(...matrices: Matrix[]): Matrix {
+  return matrices.reduce((acc, matrix) => multiplyMatrices(matrix, acc), identityMatrix);
+}
+
+/**
+ * Transforms the point, dividing by its homogeneous coordinate.
+ *
+ * @param {Matrix} mat - The matrix.
+ * @param {number} x - The x-coordinate.
+ * @param {number} y - The y-coordinate.
+ * @returns {number[]} - The transformed coordinates [x, y].
+ */
+export function applyMatrixTo(mat: Matrix, x: number, y: number): number[] {
+  const z = x * mat[6] + y * mat[7] + mat[8];
+  return [
+    (x * mat[0] + y * mat[1] + mat[2]) / z,
+    (x * mat[3] + y * mat[4] + mat[5]) / z,
+  ];
+}
+
+export function translationMatrix(offsetX: number, offsetY: number): Matrix {
+  return [1, 0, offsetX, 0, 1, offsetY, 0, 0, 1];
+}
+
+// Applies the linear part around the center instead of the origin
+function aroundCenter(centerX: number, centerY: number, linear: Matrix): Matrix {
+  return composeMatrices(translationMatrix(-centerX, -centerY), linear, translationMatrix(centerX, centerY));
+}
+
+/**
+ * Creates the rotation around the center, clockwise on screen for a positive angle as the y axis points down.
+ */
+export function rotationMatrix(centerX: number, centerY: number, radian: number): Matrix {
+  const cos = Math.cos(radian);
+  const sin = Math.sin(radian);
+  return aroundCenter(centerX, centerY, [cos, -sin, 0, sin, cos, 0, 0, 0, 1]);
+}
+
+export function scalingMatrix(centerX: number, centerY: number, scaleX: number, scaleY: number): Matrix {
+  return aroundCenter(centerX, centerY, [scaleX, 0, 0, 0, scaleY, 0, 0, 0, 1]);
+}
+
+/**
+ * Creates the skew around the center, shifting x by `tan(angleX)` per unit of y and y by `tan(angleY)` per unit of x.
+ */
+export function skewMatrix(centerX: number, centerY: number, angleX: number, angleY: number): Matrix {
+  return aroundCenter(centerX, centerY, [1, Math.tan(angleX), 0, Math.tan(angleY), 1, 0, 0, 0, 1]);
+}
+
+/**
+ * Creates the reflection across the `vertical` line through the center, swapping left and right,
+ * or across the `horizontal` one, swapping top and bottom.
+ */
+export function mirrorMatrix(centerX: number, centerY: number, axis: MirrorAxis): Matrix {
+  return axis === 'vertical'
+      ? aroundCenter(centerX, centerY, [-1, 0, 0, 0, 1, 0, 0, 0, 1])
+      : aroundCenter(centerX, centerY, [1, 0, 0, 0, -1, 0, 0, 0, 1]);
+}
@@ -0,0 +1,201 @@
+import path from 'path';
+import {GlobalFonts} from '@napi-rs/canvas';
+import {formatEther} from "viem";
+import {Rect} from "@/render/gasfire/bezierfire";
+import {DrawingSurface} from "@/render/gasfire/surface";
+import {drawArc, drawRect} from "@/render/gasfire/utils";
+import {FlameFill, Theme, TieredFireColor} from "@/render/gasfire/theme";
+import {TierResult} from "@/render/gasfire/tier";
+import type {ActivityMetric} from "@/utils/metric";
+
+export const overlayModes = ['none', 'ring', 'bar'] as const;
+
+export type OverlayMode = typeof overlayModes[number];
+
+/**
+ * Where the `baseImageSize` composition is drawn: its top left corner and its scale.
+ */
+export type Placement = {
+  x: number,
+  y: number,
+  scale: number,
+}
+
+// The height of the overlay band, relative to the shorter side of the drawing area
+const bandRatio = 0.18;
+// The badge is filled with the outer colour of the palette, which is dark in every theme
+const badgeTextColor = '#ffffff';
+
+// The text is drawn with the bundled Inter, so renders don't depend on the fonts installed on the host
+const overlayFontFamily = 'GasFire Sans';
+const overlayFontFiles = ['Inter-Regular.woff2', 'Inter-Bold.woff2'];
+let overlayFontRegistered = false;
+
+function registerOverlayFont() {
+  if (overlayFontRegistered) {
+    return;
+  }
+  for (const file of overlayFontFiles) {
+    // Resolved from the project root, as bundled server code has no meaningful __dirname; the fonts
+    // are traced into standalone and serverless output by next.config.mjs
+    const fontPath = path.join(process.cwd(), 'src', 'render', 'gasfire', 'fonts', file);
+    if (!GlobalFonts.registerFromPath(fontPath, overlayFontFamily)) {
+      throw new Error(`Failed to register the overlay font ${fontPath}`);
+    }
+  }
+  overlayFontRegistered = true;
+}
+
+function overlayFontOf(size: number, bold: boolean = false): string {
+  // SVG viewers fall back to their sans-serif font
+  return `${bold ? 'bold ' : ''}${Math.round(size)}px "${overlayFontFamily}", sans-serif`;
+}
+
+function solidOf(fill: FlameFill): string {
+  return typeof fill === 'string' ? fill : fill.to;
+}
+
+/**
+ * Formats a metric value for the overlay, e.g. `1.2M gas` or `0.0125 ETH`.
+ *
+ * @param {bigint} value - The metric value.
+ * @param {ActivityMetric} metric - The metric.
+ * @returns {string} - The formatted value with its unit.
+ */
+export function formatMetricValue(value: bigint, metric: ActivityMetric): string {
+  if (metric === 'fee_paid') {
+    return `${Number(Number(formatEther(value)).toPrecision(3))} ETH`;
+  }
+  const units: [number, string][] = [[1e9, 'B'], [1e6, 'M'], [1e3, 'K']];
+  const n = Number(value);
+  for (const [size, suffix] of units) {
+    if (n >= size) {
+      return `${Number((n / size).toPrecision(3))}${suffix} gas`;
+    }
+  }
+  return `${n} gas`;
+}
+
+/**
+ * Lays the composition out above a band reserved for the overlay.
+ *
+ * The composition keeps its size and moves up into its own empty margin when it can, and shrinks only when
+ * the flames would otherwise reach into the band.
+ *
+ * @param {Rect} area - The drawing area, inside the padding.
+ * @param {Rect} flames - The bounds of the flames in composition coordinates.
+ * @param {number} compositionSize - The size of the square composition.
+ * @returns {{placement: Placement, band: Rect}} - The placement of the composition and the overlay band.
+ */
+export function layoutOverlay(area: Rect, flames: Rect, compositionSize: number): { placement: Placement, band: Rect } {
+  const areaWidth = area.x2 - area.x1;
+  const areaHeight = area.y2 - area.y1;
+  const bandHeight = Math.min(areaWidth, areaHeight) * bandRatio;
+  const gap = bandHeight * 0.1;
+  const flamesBottom = area.y2 - bandHeight - gap;
+
+  const scale = Math.min(
+      Math.min(areaWidth, areaHeight) / compositionSize,
+      (flamesBottom - area.y1) / (flames.y2 - flames.y1));
+  const centeredY = area.y1 + (areaHeight - compositionSize * scale) / 2;
+  const y = Math.max(area.y1 - flames.y1 * scale, Math.min(centeredY, flamesBottom - flames.y2 * scale));
+
+  return {
+    placement: {x: area.x1 + (areaWidth - compositionSize * scale) / 2, y, scale},
+    band: {x1: area.x1, y1: area.y2 - bandHeight, x2: area.x2, y2: area.y2},
+  };
+}
+
+/**
+ * Draws the tier badge and the progress towards the next boundary into the overlay band.
+ *
+ * The badge shows the tier number, with a progress ring around it in `ring` mode, or followed by a progress bar
+ * in `bar` mode. The label shows the tier name and the value against the next boundary.
+ *
+ * @param {DrawingSurface} ctx - The surface to draw on, in image coordinates.
+ * @param {Rect} band - The overlay band from `layoutOverlay`.
+ * @param {OverlayMode} mode - The progress indicator.
+ * @param {TierResult} tier - The tier of the value.
+ * @param {bigint} value - The metric value.
+ * @param {ActivityMetric} metric - The metric of the value.
+ * @param {Theme} theme - The theme, whose stroke colours the text and the tracks.
+ * @param {TieredFireColor} palette - The palette of the tier.
+ */
+export function drawTierOverlay(
+    ctx: DrawingSurface, band: Rect, mode: OverlayMode,
+    tier: TierResult, value: bigint, metric: ActivityMetric,
+    theme: Theme, palette: TieredFireColor
+) {
+  if (mode === 'none') {
+    return;
+  }
+  registerOverlayFont();
+
+  const height = band.y2 - band.y1;
+  const centerY = (band.y1 + band.y2) / 2;
+  const ringWidth = height * 0.08;
+  const radius = height / 2 - ringWidth;
+  const badgeX = band.x1 + height / 2;
+  const trackColor = solidOf(theme.stroke);
+  const progressColor = solidOf(palette.middle);
+
+  ctx.save();
+
+  ctx.beginPath();
+  ctx.arc(badgeX, centerY, radius - ringWidth, 0, Math.PI * 2);
+  ctx.fillStyle = solidOf(palette.outer);
+  ctx.fill();
+
+  ctx.fillStyle = badgeTextColor;
+  ctx.font = overlayFontOf(radius, true);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(String(tier.tier), badgeX, centerY);
+
+  const textX = band.x1 + height * 1.15;
+  const title = tier.label ? `Tier ${tier.tier} · ${tier.label}` : `Tier ${tier.tier} of ${tier.tiers}`;
+  const detail = tier.nextBoundary === undefined
+      ? `${formatMetricValue(value, metric)} · top tier`
+      : `${formatMetricValue(value, metric)} / ${formatMetricValue(tier.nextBoundary, metric)}`;
+  ctx.fillStyle = trackColor;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+
+  if (mode === 'ring') {
+    ctx.strokeStyle = trackColor;
+    ctx.lineWidth = ringWidth / 4;
+    drawArc(ctx, badgeX, centerY, radius, 0, Math.PI * 2);
+    if (tier.progress > 0) {
+      ctx.strokeStyle = progressColor;
+      ctx.lineWidth = ringWidth;
+      // A full turn starting from a negative angle is dropped by some canvases, so it's drawn from zero
+      const startAngle = tier.progress >= 1 ? 0 : -Math.PI / 2;
+      drawArc(ctx, badgeX, centerY, radius, startAngle, startAngle + Math.PI * 2 * tier.progress);
+    }
+
+    ctx.font = overlayFontOf(height * 0.26, true);
+    ctx.fillText(title, textX, centerY - height * 0.04);
+    ctx.font = overlayFontOf(height * 0.2);
+    ctx.fillText(detail, textX, centerY + height * 0.26);
+  } else {
+    ctx.font = overlayFontOf(height * 0.22, true);
+    ctx.fillText(`${title}  ${detail}`, textX, centerY - height * 0.08);
+
+    const barTop = centerY + height * 0.04;
+    const barHeight = height * 0.2;
+    const barRight = band.x2 - ringWidth;
+    const barWidth = Math.max(0, barRight - textX);
+    ctx.fillStyle = progressColor;
+    ctx.fillRect(textX, barTop, barWidth * tier.progress, barHeight);
+    ctx.strokeStyle = trackColor;
+    ctx.lineWidth = ringWidth / 3;
+    drawRect(ctx, [
+      [textX, barTop],
+      [barRight, barTop],
+      [barRight, barTop + barHeight],
+      [textX, barTop + barHeight],
+    ]);
+  }
+
+  ctx.restore();
+}
@@ -1,7 +1,7 @@
-import {SKRSContext2D as SSContext2D} from "@napi-rs/canvas";
-import {mat4} from "gl-matrix";
+import {DrawingSurface} from "@/render/gasfire/surface";
 import {BezierFire} from "@/render/gasfire/bezierfire";
 import {drawRect} from "@/render/gasfire/utils";
+import {applyMatrixTo, identityMatrix, Matrix, multiplyMatrices} from "@/render/gasfire/matrix";
 
 
 export type TransformTemplate = {
@@ -9,12 +9,27 @@ export type TransformTemplate = {
   dest: number[][]
 }
 
+export type QuadDefect = 'degenerate' | 'self-intersecting' | 'concave' | 'inverted';
+
+/**
+ * Thrown when the corners of a template don't define a usable projective transform.
+ */
+export class DegenerateTransformError extends Error {
+  readonly defect: QuadDefect;
+
+  constructor(defect: QuadDefect, message: string) {
+    super(message);
+    this.name = 'DegenerateTransformError';
+    this.defect = defect;
+  }
+}
+
 // Refer to: https://yaju3d.hatenablog.jp/entry/2013/09/12/010917
 export class ProjectiveTransform {
   template: TransformTemplate;
-  mat: number[];
+  mat: Matrix;
 
-  constructor(template: TransformTemplate, transformMatrix: number[]) {
+  constructor(template: TransformTemplate, transformMatrix: Matrix) {
     this.template = template;
     this.mat = transformMatrix;
   }
@@ -27,30 +42,18 @@ export class ProjectiveTransform {
    * @returns {number[]} - The transformed coordinates [x, y].
    */
   transform = (_x: number, _y: number): number[] => {
-    const z = _x * this.mat[6] + _y * this.mat[7] + this.mat[8];
-    const x = (_x * this.mat[0] + _y * this.mat[1] + this.mat[2]) / z;
-    const y = (_x * this.mat[3] + _y * this.mat[4] + this.mat[5]) / z;
-    return [x, y];
+    return applyMatrixTo(this.mat, _x, _y);
   }
 
   /**
    * Transforms a BezierFire object by applying a transformation to its coordinates.
+   * The control points are transformed as well, approximating the projected curves, and the frame is their new bounds.
    *
    * @param {BezierFire} bezierLine - The BezierFire object to transform.
    * @returns {BezierFire} - The transformed BezierFire object.
    */
   transformBezier = (bezierLine: BezierFire): BezierFire => {
-    const [sx, sy] = this.transform(bezierLine.start.x, bezierLine.start.y);
-    const [fbx, fby] = this.transform(bezierLine.fireBase.x, bezierLine.fireBase.y);
-
-    const points = bezierLine.points.map(point => {
-      const [cp1x, cp1y] = this.transform(point.cp1x, point.cp1y);
-      const [cp2x, cp2y] = this.transform(point.cp2x, point.cp2y);
-      const [x, y] = this.transform(point.x, point.y);
-      return {cp1x, cp1y, cp2x, cp2y, x, y}
-    });
-
-    return new BezierFire(bezierLine.frame, {x: sx, y: sy}, points, {x: fbx, y: fby})
+    return bezierLine.applyMatrix(this.mat);
   }
 
   /**
@@ -58,106 +61,183 @@ export class ProjectiveTransform {
    *
    * @param {TransformTemplate} template - The template containing source and destination points for the transformation.
    * @return {ProjectiveTransform} - A new instance of ProjectiveTransform.
+   * @throws {DegenerateTransformError} - If a quad is degenerate, self-intersecting or concave,
+   *                                      or the destination is mirrored.
    */
   static createTransformBy(template: TransformTemplate): ProjectiveTransform {
+    const srcDefect = findQuadDefect(template.src);
+    if (srcDefect !== undefined) {
+      throw new DegenerateTransformError(srcDefect, `The source quad is ${srcDefect}`);
+    }
+    const destDefect = findQuadDefect(template.dest);
+    if (destDefect !== undefined) {
+      throw new DegenerateTransformError(destDefect, `The destination quad is ${destDefect}`);
+    }
+    // A mirrored quad would turn the flame inside out
+    if (Math.sign(signedAreaOf(template.src)) !== Math.sign(signedAreaOf(template.dest))) {
+      throw new DegenerateTransformError('inverted', 'The destination quad is inverted');
+    }
+
     const projectionMatrix = calcProjectionMatrix(template.src, template.dest);
+    if (projectionMatrix === undefined) {
+      throw new DegenerateTransformError('degenerate', 'The quads define no projective transform');
+    }
     return new ProjectiveTransform(template, projectionMatrix);
   }
 
+  /**
+   * Creates the transform leaving every point in place.
+   *
+   * @param {number[][]} quad - The corners used as both the source and the destination of the template.
+   * @return {ProjectiveTransform} - The identity transform.
+   */
+  static createIdentityBy(quad: number[][]): ProjectiveTransform {
+    return new ProjectiveTransform({src: quad, dest: quad}, [...identityMatrix]);
+  }
+
   /**
    * Visualize function is responsible for drawing rectangles on the canvas context.
    *
-   * @param {SSContext2D | CanvasRenderingContext2D} ctx - The context to draw on.
+   * @param {DrawingSurface} ctx - The context to draw on.
    * @returns {void}
    */
-  visualize = (ctx: SSContext2D | CanvasRenderingContext2D) => {
+  visualize = (ctx: DrawingSurface) => {
     drawRect(ctx, this.template.src);
     drawRect(ctx, [...this.template.src.map(point => this.transform(point[0], point[1]))]);
   }
 }
 
 /**
- * Calculates the projection matrix based on the source and destination coordinates.
+ * Finds the defect of a quad that keeps it from being a corner set of a projective transform.
+ *
+ * A quad is `degenerate` when three of its corners are collinear, `self-intersecting` when opposite edges cross,
+ * and `concave` when it turns both ways. A projective transform maps a convex quad onto a convex quad only,
+ * a concave one sending part of the flame through the line at infinity.
+ *
+ * @param {number[][]} quad - The corners, in order around the quad.
+ * @returns {QuadDefect | undefined} - The defect, undefined for a convex quad.
+ */
+export function findQuadDefect(quad: number[][]): QuadDefect | undefined {
+  const xs = quad.map(p => p[0]);
+  const ys = quad.map(p => p[1]);
+  const size = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  // Relative to the size of the quad, so it doesn't depend on the units
+  const tolerance = size * size * 1e-6;
+  // Each triple of consecutive corners leaves out one corner, so they cover every triple
+  const turns = quad.map((_, i) => cross(quad[i], quad[(i + 1) % 4], quad[(i + 2) % 4]));
+  if (size === 0 || turns.some(turn => Math.abs(turn) <= tolerance)) {
+    return 'degenerate';
+  }
+  if (segmentsCross(quad[0], quad[1], quad[2], quad[3]) || segmentsCross(quad[1], quad[2], quad[3], quad[0])) {
+    return 'self-intersecting';
+  }
+  if (!turns.every(turn => Math.sign(turn) === Math.sign(turns[0]))) {
+    return 'concave';
+  }
+  return undefined;
+}
+
+function cross(o: number[], a: number[], b: number[]): number {
+  return (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+}
+
+function segmentsCross(a1: number[], a2: number[], b1: number[], b2: number[]): boolean {
+  return cross(a1, a2, b1) * cross(a1, a2, b2) < 0 && cross(b1, b2, a1) * cross(b1, b2, a2) < 0;
+}
+
+// The signed area of the quad, positive when its corners turn clockwise on screen
+function signedAreaOf(quad: number[][]): number {
+  return quad.reduce((acc, p, i) => acc + cross([0, 0], p, quad[(i + 1) % 4]), 0) / 2;
+}
+
+/**
+ * Calculates the similarity moving the centroid of the points to the origin and their mean distance to it to √2,
+ * which keeps the linear system of the DLT well conditioned whatever the coordinates.
+ */
+function normalizationOf(points: number[][]): Matrix {
+  const cx = points.reduce((acc, p) => acc + p[0], 0) / points.length;
+  const cy = points.reduce((acc, p) => acc + p[1], 0) / points.length;
+  const meanDistance = points.reduce((acc, p) => acc + Math.hypot(p[0] - cx, p[1] - cy), 0) / points.length;
+  const scale = Math.SQRT2 / meanDistance;
+  return [scale, 0, -scale * cx, 0, scale, -scale * cy, 0, 0, 1];
+}
+
+function inverseNormalizationOf(normalization: Matrix): Matrix {
+  const scale = normalization[0];
+  return [1 / scale, 0, -normalization[2] / scale, 0, 1 / scale, -normalization[5] / scale, 0, 0, 1];
+}
+
+/**
+ * Solves the linear system by Gaussian elimination with partial pivoting.
+ *
+ * @param {number[][]} a - The square matrix, by rows. It's overwritten.
+ * @param {number[]} b - The right-hand side. It's overwritten.
+ * @returns {number[] | undefined} - The solution, undefined when the matrix is singular.
+ */
+function solveLinearSystem(a: number[][], b: number[]): number[] | undefined {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(a[pivot][col]) < 1e-10) {
+      return undefined;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x: number[] = new Array(n);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * x[k];
+    }
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/**
+ * Calculates the projection matrix mapping the four source corners onto the destination corners,
+ * by the direct linear transform of the normalized corners.
  *
  * @param {number[][]} src - The source coordinates.
  * @param {number[][]} dest - The destination coordinates.
- * @return {number[]} - The projection matrix.
+ * @return {Matrix | undefined} - The projection matrix, undefined when the corners don't define one.
  */
-function calcProjectionMatrix(src: number[][], dest: number[][]): number[] {
-  function Z(val: number): number {
-    return val == 0 ? 0.5 : val;
+function calcProjectionMatrix(src: number[][], dest: number[][]): Matrix | undefined {
+  const srcNormalization = normalizationOf(src);
+  const destNormalization = normalizationOf(dest);
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const [X, Y] = applyMatrixTo(srcNormalization, src[i][0], src[i][1]);
+    const [x, y] = applyMatrixTo(destNormalization, dest[i][0], dest[i][1]);
+    a.push([X, Y, 1, 0, 0, 0, -X * x, -Y * x]);
+    b.push(x);
+    a.push([0, 0, 0, X, Y, 1, -X * y, -Y * y]);
+    b.push(y);
   }
 
-  const X1 = Z(src[0][0]);
-  const X2 = Z(src[1][0]);
-  const X3 = Z(src[2][0]);
-  const X4 = Z(src[3][0]);
-  const Y1 = Z(src[0][1]);
-  const Y2 = Z(src[1][1]);
-  const Y3 = Z(src[2][1]);
-  const Y4 = Z(src[3][1]);
-  const x1 = Z(dest[0][0]);
-  const x2 = Z(dest[1][0]);
-  const x3 = Z(dest[2][0]);
-  const x4 = Z(dest[3][0]);
-  const y1 = Z(dest[0][1]);
-  const y2 = Z(dest[1][1]);
-  const y3 = Z(dest[2][1]);
-  const y4 = Z(dest[3][1]);
-
-  //X point
-  const tx = mat4.fromValues(
-      X1, Y1, -X1 * x1, -Y1 * x1,
-      X2, Y2, -X2 * x2, -Y2 * x2,
-      X3, Y3, -X3 * x3, -Y3 * x3,
-      X4, Y4, -X4 * x4, -Y4 * x4
-  )
-
-  mat4.invert(tx, tx);
-  const kx1 = tx[0] * x1 + tx[1] * x2 + tx[2] * x3 + tx[3] * x4;
-  const kc1 = tx[0] + tx[1] + tx[2] + tx[3];
-  const kx2 = tx[4] * x1 + tx[5] * x2 + tx[6] * x3 + tx[7] * x4;
-  const kc2 = tx[4] + tx[5] + tx[6] + tx[7];
-  const kx3 = tx[8] * x1 + tx[9] * x2 + tx[10] * x3 + tx[11] * x4;
-  const kc3 = tx[8] + tx[9] + tx[10] + tx[11];
-  const kx4 = tx[12] * x1 + tx[13] * x2 + tx[14] * x3 + tx[15] * x4;
-  const kc4 = tx[12] + tx[13] + tx[14] + tx[15];
-
-  //Y point
-  const ty = mat4.fromValues(
-      X1, Y1, -X1 * y1, -Y1 * y1,
-      X2, Y2, -X2 * y2, -Y2 * y2,
-      X3, Y3, -X3 * y3, -Y3 * y3,
-      X4, Y4, -X4 * y4, -Y4 * y4
-  );
-
-  mat4.invert(ty, ty);
-  const ky1 = ty[0] * y1 + ty[1] * y2 + ty[2] * y3 + ty[3] * y4;
-  const kf1 = ty[0] + ty[1] + ty[2] + ty[3];
-  const ky2 = ty[4] * y1 + ty[5] * y2 + ty[6] * y3 + ty[7] * y4;
-  const kf2 = ty[4] + ty[5] + ty[6] + ty[7];
-  const ky3 = ty[8] * y1 + ty[9] * y2 + ty[10] * y3 + ty[11] * y4;
-  const kf3 = ty[8] + ty[9] + ty[10] + ty[11];
-  const ky4 = ty[12] * y1 + ty[13] * y2 + ty[14] * y3 + ty[15] * y4;
-  const kf4 = ty[12] + ty[13] + ty[14] + ty[15];
-  let det_1 = kc3 * (-kf4) - (-kf3) * kc4;
-
-  if (det_1 == 0) {
-    det_1 = 0.0001;
+  const h = solveLinearSystem(a, b);
+  if (h === undefined) {
+    return undefined;
+  }
+  const mat = multiplyMatrices(inverseNormalizationOf(destNormalization), multiplyMatrices([...h, 1], srcNormalization));
+  if (Math.abs(mat[8]) < 1e-12) {
+    return undefined;
   }
-  det_1 = 1 / det_1;
-  const param: number[] = new Array(9);
-  const C = (-kf4 * det_1) * (kx3 - ky3) + (kf3 * det_1) * (kx4 - ky4);
-  const F = (-kc4 * det_1) * (kx3 - ky3) + (kc3 * det_1) * (kx4 - ky4);
-  param[2] = C;
-  param[5] = F;
-  param[6] = kx3 - C * kc3;
-  param[7] = kx4 - C * kc4;
-  param[0] = kx1 - C * kc1;
-  param[1] = kx2 - C * kc2;
-  param[3] = ky1 - F * kf1;
-  param[4] = ky2 - F * kf2;
-  param[8] = 1;
-
-  return param;
+  return mat.map(value => value / mat[8]);
 }
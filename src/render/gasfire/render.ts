@@ -1,27 +1,59 @@
-import {SKRSContext2D as SSContext2D} from "@napi-rs/canvas";
-import {BezierFire} from "@/render/gasfire/bezierfire";
-import {ProjectionGenerator} from "@/render/gasfire/generator";
-import {XorShift} from "@/render/gasfire/xorshift";
-import {checkTierOf, getTieredFireColor, TieredFireColor} from "@/render/gasfire/tier";
+import {DrawingSurface} from "@/render/gasfire/surface";
+import {BezierFire, Point, Rect} from "@/render/gasfire/bezierfire";
+import {drawProjectionSample, ProjectionGenerator, ProjectionSample} from "@/render/gasfire/generator";
+import {ProjectiveTransform} from "@/render/gasfire/projection";
+import {SeedingOptions, XorShift} from "@/render/gasfire/xorshift";
+import {checkTierOf, getTieredFireColor, TierResult} from "@/render/gasfire/tier";
+import {getDefaultTierSchedule, TierSchedule} from "@/render/gasfire/schedule";
+import {FlameFill, getTheme, Theme, TieredFireColor} from "@/render/gasfire/theme";
+import type {ActivityMetric} from "@/utils/metric";
+import {AnimationFrame, defaultAnimation, FlameNoise} from "@/render/gasfire/animation";
+import {defaultSeeds, getBezierFireSeeds, SeedName} from "@/render/gasfire/seedlibrary";
+import {drawTierOverlay, layoutOverlay, OverlayMode, Placement} from "@/render/gasfire/overlay";
 
 /**
- * Represents an array of BezierFire objects.
+ * The size of the square canvas the seeds and the projection ranges are designed for.
+ * Other output sizes are rendered by scaling this composition.
  */
-const bezierFireSeeds: BezierFire[] = [
-  new BezierFire(
-      {x1: 120, y1: 70, x2: 392, y2: 512},
-      {x: 134, y: 391},
-      [
-        {cp1x: 173, cp1y: 530, cp2x: 344, cp2y: 530, x: 383, y: 391},
-        {cp1x: 406, cp1y: 260, cp2x: 282, cp2y: 221, x: 258, y: 70},
-        {cp1x: 234, cp1y: 221, cp2x: 110, cp2y: 260, x: 134, y: 391}
-      ],
-      {x: 258, y: 406})
-];
+export const baseImageSize = 512;
+
+export type RenderOptions = {
+  background?: string,
+  padding?: number,
+  animation?: AnimationFrame,
+  seeds?: SeedName[],
+  theme?: Theme,
+  schedule?: TierSchedule,
+  overlay?: OverlayMode,
+  seeding?: SeedingOptions,
+  debug?: boolean,
+}
+
+// The colours of the debug guides
+const debugColors = {
+  sample: '#00a8ff',
+  projection: '#ff2bd6',
+  centroid: '#ff3b30',
+  fireBase: '#00c853',
+};
+
+/**
+ * Resolves the fill of a flame, spanning gradients over its bounding box from the tip to the base.
+ */
+function fillStyleOf(ctx: DrawingSurface, bezierFire: BezierFire, fill: FlameFill): string | CanvasGradient {
+  if (typeof fill === 'string') {
+    return fill;
+  }
+  const {x1, y1, x2, y2} = bezierFire.calculateBoundingBox();
+  const gradient = ctx.createLinearGradient((x1 + x2) / 2, y1, (x1 + x2) / 2, y2);
+  gradient.addColorStop(0, fill.from);
+  gradient.addColorStop(1, fill.to);
+  return gradient;
+}
 
 function drawBezierFire(
-    ctx: SSContext2D | CanvasRenderingContext2D,
-    bezierFire: BezierFire, fillColor: string | CanvasGradient
+    ctx: DrawingSurface,
+    bezierFire: BezierFire, fill: FlameFill
 ) {
   ctx.beginPath();
   ctx.moveTo(bezierFire.start.x, bezierFire.start.y);
@@ -31,12 +63,13 @@ function drawBezierFire(
   }
 
   ctx.closePath();
-  ctx.fillStyle = fillColor;
+  ctx.fillStyle = fillStyleOf(ctx, bezierFire, fill);
   ctx.fill();
 }
 
 function drawBezierFrame(
-    ctx: SSContext2D | CanvasRenderingContext2D,
+    ctx: DrawingSurface,
+    theme: Theme,
     fireColor: TieredFireColor,
     bezierFires: BezierFire[]
 ) {
@@ -45,12 +78,12 @@ function drawBezierFrame(
   for (let fire of bezierFires) {
     fire = fire.move(baseFire.fireBase.x - fire.fireBase.x, 0);
     const {x, y} = fire.calculateApproximateCentroid();
-    drawBezierFire(ctx, fire.scale(x, y, 1.0), '#ffffff');
+    drawBezierFire(ctx, fire.scale(x, y, 1.0), theme.halo);
   }
   for (let fire of bezierFires) {
     fire = fire.move(baseFire.fireBase.x - fire.fireBase.x, 0);
     const {x, y} = fire.calculateApproximateCentroid();
-    drawBezierFire(ctx, fire.scale(x, y, 0.93), '#000000');
+    drawBezierFire(ctx, fire.scale(x, y, 0.93), theme.stroke);
   }
   for (let fire of bezierFires) {
     fire = fire.move(baseFire.fireBase.x - fire.fireBase.x, 0);
@@ -66,27 +99,227 @@ function drawBezierFrame(
   drawBezierFire(ctx, baseFire.scale(baseFire.fireBase.x, baseFire.fireBase.y, 0.3), fireColor.inner);
 }
 
+/**
+ * Renders the gas fire of the address into the surface.
+ *
+ * The composition is laid out on a `baseImageSize` square, scaled to fit the surface inside the padding and centered.
+ *
+ * @param {DrawingSurface} ctx - The surface to draw on.
+ * @param {number} width - The width of the surface.
+ * @param {number} height - The height of the surface.
+ * @param {string} address - The address seeding the flame shapes.
+ * @param {bigint} value - The activity metric value deciding the tier.
+ * @param {ActivityMetric} [metric='gas_used'] - The metric of the value.
+ * @param {RenderOptions} [options] - The background colour, transparent by default, the padding in pixels,
+ *                                    the animation frame to render, the seed shapes to pick from,
+ *                                    the theme colouring the flames, the tier schedule of the metric
+ *                                    the tier progress overlay, drawn in a band below the flames,
+ *                                    the seeding scheme of the address, `v1` by default,
+ *                                    and whether the generation guides of the flames are drawn over them.
+ */
 export function renderImage(
-    ctx: SSContext2D | CanvasRenderingContext2D,
+    ctx: DrawingSurface,
     width: number, height: number,
-    address: string, gasUsed: bigint
+    address: string, value: bigint,
+    metric: ActivityMetric = 'gas_used',
+    options: RenderOptions = {}
 ) {
-  const xorShift = XorShift.getDeterministicRandomBy(address);
+  if (options.background) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  const xorShift = XorShift.createBy(address, options.seeding);
+  const flames = generateFlames(xorShift, options.seeds);
+  const staticFires = flames.map(flame => flame.fire);
+  // The noise continues the sequence of the address, so the static flames are left untouched
+  const bezierFires = options.animation
+      ? new FlameNoise(xorShift).perturb(staticFires, flames.map(flame => flame.seedHeight), options.animation)
+      : staticFires;
+
+  const theme = options.theme ?? getTheme();
+  const tier = checkTierOf(value, options.schedule ?? getDefaultTierSchedule(metric));
+  const tieredFireColor = getTieredFireColor(tier, theme);
+
+  const padding = options.padding ?? 0;
+  const area: Rect = {x1: padding, y1: padding, x2: width - padding, y2: height - padding};
+  let placement: Placement;
+  if (options.overlay && options.overlay !== 'none') {
+    // Laid out around the static flames with the same margin whether animated or not, so the overlay and
+    // the flames hold still across animation frames and the first frame is the still image.
+    // The margin leaves room for the noise at the default amplitude.
+    const flames = calculateFlamesBounds(staticFires, defaultAnimation.amplitude);
+    const layout = layoutOverlay(area, flames, baseImageSize);
+    placement = layout.placement;
+    drawTierOverlay(ctx, layout.band, options.overlay, tier, value, metric, theme, tieredFireColor);
+  } else {
+    const scale = Math.min(area.x2 - area.x1, area.y2 - area.y1) / baseImageSize;
+    placement = {x: (width - baseImageSize * scale) / 2, y: (height - baseImageSize * scale) / 2, scale};
+  }
+
+  ctx.save();
+  ctx.translate(placement.x, placement.y);
+  ctx.scale(placement.scale, placement.scale);
+  drawBezierFrame(ctx, theme, tieredFireColor, bezierFires);
+  if (options.debug) {
+    drawFlameGuides(ctx, flames, 1 / placement.scale);
+  }
+  ctx.restore();
+}
+
+/**
+ * Draws how each flame was generated: the ranges its bar was sampled from, the seed frame and its projection,
+ * its approximate centroid and its fire base.
+ *
+ * @param {DrawingSurface} ctx - The surface to draw on, in composition coordinates.
+ * @param {GeneratedFlame[]} flames - The flames, the first one being the base flame.
+ * @param {number} pixel - The size of an image pixel in composition coordinates.
+ */
+function drawFlameGuides(ctx: DrawingSurface, flames: GeneratedFlame[], pixel: number) {
+  const baseFire = flames[0].fire;
+  const drawMarker = (point: Point, color: string) => {
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, 3 * pixel, 0, Math.PI * 2);
+    ctx.fillStyle = color;
+    ctx.fill();
+  };
+
+  ctx.save();
+  ctx.lineWidth = 1.5 * pixel;
+  for (const flame of flames) {
+    ctx.save();
+    // Drawn where the flame is drawn, aligned on the fire base of the base flame
+    ctx.translate(baseFire.fireBase.x - flame.fire.fireBase.x, 0);
+    if (flame.sample) {
+      ctx.strokeStyle = debugColors.sample;
+      drawProjectionSample(ctx, flame.sample);
+    }
+    if (flame.projection) {
+      ctx.strokeStyle = debugColors.projection;
+      flame.projection.visualize(ctx);
+    }
+    drawMarker(flame.fire.calculateApproximateCentroid(), debugColors.centroid);
+    drawMarker(flame.fire.fireBase, debugColors.fireBase);
+    ctx.restore();
+  }
+  ctx.restore();
+}
 
-  const bezierFires: BezierFire[] = [];
+/**
+ * Calculates the bounds of the flames as drawn, aligned on the fire base of the base flame.
+ *
+ * @param {BezierFire[]} bezierFires - The flames, the first one being the base flame.
+ * @param {number} margin - The margin added on every side.
+ * @returns {Rect} - The bounds in composition coordinates.
+ */
+function calculateFlamesBounds(bezierFires: BezierFire[], margin: number): Rect {
+  const baseFire = bezierFires[0];
+  const bounds = bezierFires.map(fire => fire.move(baseFire.fireBase.x - fire.fireBase.x, 0).calculateBoundingBox());
+  return {
+    x1: Math.min(...bounds.map(b => b.x1)) - margin,
+    y1: Math.min(...bounds.map(b => b.y1)) - margin,
+    x2: Math.max(...bounds.map(b => b.x2)) + margin,
+    y2: Math.max(...bounds.map(b => b.y2)) + margin,
+  };
+}
+
+/**
+ * A flame of the composition with how it was generated: its seed, the height of the seed from the top of its frame
+ * to its fire base and, but for the base flame, the bar sampled for it and the projection of the seed onto that bar.
+ */
+type GeneratedFlame = {
+  seed: SeedName,
+  seedHeight: number,
+  fire: BezierFire,
+  sample?: ProjectionSample,
+  projection?: ProjectiveTransform,
+  rejectedSamples?: number,
+}
+
+/**
+ * Generates the flames of the address: the first flame is a seed itself, the others are projections of a seed.
+ *
+ * Each flame picks its seed from the sequence. A single seed consumes nothing, so it renders as before the library.
+ *
+ * @param {XorShift} xorShift - The deterministic random sequence of the address.
+ * @param {SeedName[]} [seeds] - The seed shapes to pick from, the classic seed by default.
+ * @returns {GeneratedFlame[]} - The flames, the first one being the base flame.
+ */
+function generateFlames(xorShift: XorShift, seeds: SeedName[] = defaultSeeds): GeneratedFlame[] {
+  const library = getBezierFireSeeds(seeds).map((fire, i) => ({name: seeds[i], fire}));
+  const flames: GeneratedFlame[] = [];
   const fireNum = xorShift.nextIntBet(2, 4);
   for (let i = 0; i < fireNum; i++) {
-    const seedIdx = xorShift.nextIntBet(0, bezierFireSeeds.length - 1);
-    let fire = bezierFireSeeds[seedIdx];
-    const generator = ProjectionGenerator.createBy(xorShift, fire, width);
-    if (i > 0) {
-      const projection = generator.nextTransform();
-      fire = projection.transformBezier(fire);
+    const seed = xorShift.choice(library);
+    const seedHeight = seed.fire.fireBase.y - seed.fire.frame.y1;
+    if (i === 0) {
+      flames.push({seed: seed.name, seedHeight, fire: seed.fire});
+      continue;
     }
-    bezierFires.push(fire);
+    const generator = ProjectionGenerator.createBy(xorShift, seed.fire, baseImageSize);
+    const {transform, sample, rejectedSamples} = generator.nextProjection();
+    flames.push({
+      seed: seed.name, seedHeight, fire: transform.transformBezier(seed.fire),
+      sample, projection: transform, rejectedSamples,
+    });
   }
+  return flames;
+}
 
-  const tier = checkTierOf(gasUsed);
-  const tieredFireColor = getTieredFireColor(tier);
-  drawBezierFrame(ctx, tieredFireColor, bezierFires);
-}
\ No newline at end of file
+export type ImageTraits = {
+  tier: TierResult,
+  palette: TieredFireColor,
+  fireNum: number,
+}
+
+/**
+ * Describes the image rendered for the address without drawing it.
+ *
+ * @param {string} address - The address seeding the flame shapes.
+ * @param {bigint} value - The activity metric value deciding the tier.
+ * @param {ActivityMetric} [metric='gas_used'] - The metric of the value.
+ * @param {RenderOptions} [options] - The options of the image, of which the theme, the tier schedule,
+ *                                    the seeding scheme and the seeds matter.
+ * @returns {ImageTraits} - The tier, its palette and the number of flames.
+ */
+export function getImageTraits(
+    address: string, value: bigint, metric: ActivityMetric = 'gas_used', options: RenderOptions = {}
+): ImageTraits {
+  const flames = generateFlames(XorShift.createBy(address, options.seeding), options.seeds);
+  const tier = checkTierOf(value, options.schedule ?? getDefaultTierSchedule(metric));
+  return {tier, palette: getTieredFireColor(tier, options.theme ?? getTheme()), fireNum: flames.length};
+}
+
+/**
+ * How a flame of the image was generated, in composition coordinates and radians.
+ * `offsetX` is the shift aligning the flame on the fire base of the base flame, which the other points don't include.
+ * The projected flames have the number of bars rejected before their `sample`, which is missing when every bar was.
+ */
+export type FlameDebugInfo = {
+  seed: SeedName,
+  offsetX: number,
+  centroid: Point,
+  fireBase: Point,
+  sample?: ProjectionSample,
+  rejectedSamples?: number,
+}
+
+/**
+ * Describes how the flames of the image rendered for the address were generated, without drawing them.
+ *
+ * @param {string} address - The address seeding the flame shapes.
+ * @param {RenderOptions} [options] - The options of the image, of which the seed shapes and the seeding scheme matter.
+ * @returns {FlameDebugInfo[]} - The flames, the first one being the base flame.
+ */
+export function getFlameDebugInfo(address: string, options: RenderOptions = {}): FlameDebugInfo[] {
+  const flames = generateFlames(XorShift.createBy(address, options.seeding), options.seeds);
+  const baseFire = flames[0].fire;
+  return flames.map(flame => ({
+    seed: flame.seed,
+    offsetX: baseFire.fireBase.x - flame.fire.fireBase.x,
+    centroid: flame.fire.calculateApproximateCentroid(),
+    fireBase: flame.fire.fireBase,
+    sample: flame.sample,
+    rejectedSamples: flame.rejectedSamples,
+  }));
+}
@@ -0,0 +1,143 @@
+import 'server-only'
+import {Worker} from 'worker_threads';
+import os from 'os';
+import type {RenderOptions} from "@/render/gasfire/render";
+import type {ActivityMetric} from "@/utils/metric";
+
+/**
+ * A job of the render workers: rendering an image into a PNG or raw RGBA pixels,
+ * or encoding RGBA pixels assembled on the main thread into a PNG.
+ */
+export type RenderJob = {
+  kind: 'render',
+  output: 'png' | 'rgba',
+  width: number,
+  height: number,
+  address: string,
+  value: bigint,
+  metric: ActivityMetric,
+  options: RenderOptions,
+} | {
+  kind: 'encode',
+  width: number,
+  height: number,
+  rgba: Uint8Array,
+}
+
+export type RenderWorkerRequest = {
+  job: RenderJob,
+}
+
+export type RenderWorkerResponse = {
+  data?: Uint8Array,
+  error?: string,
+}
+
+type PendingJob = {
+  job: RenderJob,
+  resolve: (data: Uint8Array) => void,
+  reject: (error: Error) => void,
+}
+
+/**
+ * A pool of worker threads rendering images off the event loop of the server.
+ *
+ * Workers are started on demand up to the pool size and kept idle between jobs, without keeping the process alive.
+ * A worker that crashes or exits fails its job and is replaced by the next job.
+ */
+export class RenderPool {
+  private readonly size: number;
+  private readonly idle: Worker[] = [];
+  private readonly running = new Map<Worker, PendingJob>();
+  private readonly queue: PendingJob[] = [];
+
+  constructor(size: number) {
+    this.size = size;
+  }
+
+  /**
+   * Runs a job on the next free worker.
+   *
+   * @param {RenderJob} job - The job. Its options must be structured-cloneable.
+   * @returns {Promise<Uint8Array>} - The PNG or the RGBA pixels.
+   */
+  run = (job: RenderJob): Promise<Uint8Array> => {
+    return new Promise((resolve, reject) => {
+      this.queue.push({job, resolve, reject});
+      this.dispatch();
+    });
+  }
+
+  private dispatch = () => {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.running.size < this.size ? this.spawn() : undefined);
+      if (worker === undefined) {
+        return;
+      }
+      const pending = this.queue.shift()!;
+      this.running.set(worker, pending);
+      const transfer = pending.job.kind === 'encode' ? [pending.job.rgba.buffer] : [];
+      try {
+        worker.postMessage({job: pending.job} as RenderWorkerRequest, transfer);
+      } catch (error) {
+        // The job could not be cloned to the worker, which stays free for the next one
+        this.running.delete(worker);
+        this.idle.push(worker);
+        pending.reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+
+  private spawn = (): Worker => {
+    const worker = new Worker(new URL('./renderworker.ts', import.meta.url));
+    worker.unref();
+    worker.on('message', (response: RenderWorkerResponse) => {
+      const pending = this.running.get(worker);
+      this.running.delete(worker);
+      this.idle.push(worker);
+      if (pending) {
+        if (response.error !== undefined || response.data === undefined) {
+          pending.reject(new Error(response.error ?? 'Render worker returned no data'));
+        } else {
+          pending.resolve(response.data);
+        }
+      }
+      this.dispatch();
+    });
+    worker.on('error', (error) => this.retire(worker, error));
+    // Follows the error event of a crash, and is the only event of a worker that exits by itself
+    worker.on('exit', (code) => this.retire(worker, new Error(`Render worker exited with code ${code}`)));
+    return worker;
+  }
+
+  /**
+   * Drops a dead worker from the pool, failing its job, and lets the next job start a replacement.
+   *
+   * @param {Worker} worker - The worker.
+   * @param {Error} error - The error to fail its job with.
+   */
+  private retire = (worker: Worker, error: Error) => {
+    this.running.get(worker)?.reject(error);
+    this.running.delete(worker);
+    const idleIndex = this.idle.indexOf(worker);
+    if (idleIndex >= 0) {
+      this.idle.splice(idleIndex, 1);
+    }
+    this.dispatch();
+  }
+}
+
+let renderPool: RenderPool | undefined;
+
+/**
+ * Gets the render pool of the server, sized by `RENDER_WORKERS`, by default one worker per spare core up to four.
+ *
+ * @returns {RenderPool} - The pool.
+ */
+export function getRenderPool(): RenderPool {
+  if (renderPool === undefined) {
+    const size = Number(process.env.RENDER_WORKERS) || Math.max(1, Math.min(4, os.cpus().length - 1));
+    renderPool = new RenderPool(size);
+  }
+  return renderPool;
+}
@@ -0,0 +1,32 @@
+import {parentPort} from 'worker_threads';
+import {createCanvas} from '@napi-rs/canvas';
+import {renderImage} from "@/render/gasfire/render";
+import type {RenderJob, RenderWorkerRequest, RenderWorkerResponse} from "@/render/gasfire/renderpool";
+
+async function runJob(job: RenderJob): Promise<Uint8Array> {
+  const canvas = createCanvas(job.width, job.height);
+  const ctx = canvas.getContext('2d');
+
+  if (job.kind === 'encode') {
+    const imageData = ctx.createImageData(job.width, job.height);
+    imageData.data.set(job.rgba);
+    ctx.putImageData(imageData, 0, 0);
+    // Copied out of the native buffer, so it can be transferred
+    return new Uint8Array(await canvas.encode('png'));
+  }
+
+  renderImage(ctx, job.width, job.height, job.address, job.value, job.metric, job.options);
+  if (job.output === 'rgba') {
+    return new Uint8Array(ctx.getImageData(0, 0, job.width, job.height).data);
+  }
+  return new Uint8Array(await canvas.encode('png'));
+}
+
+parentPort?.on('message', async ({job}: RenderWorkerRequest) => {
+  try {
+    const data = await runJob(job);
+    parentPort?.postMessage({data} as RenderWorkerResponse, [data.buffer]);
+  } catch (e) {
+    parentPort?.postMessage({error: (e as Error).message} as RenderWorkerResponse);
+  }
+});
@@ -0,0 +1,100 @@
+import type {ActivityMetric} from "@/utils/metric";
+import type {Network} from "@/client/gasfire/networks";
+
+/**
+ * The tiers of a metric: a value below `boundaries[i]` is in tier `i + 1`, and a value above the last boundary
+ * is in the top tier, so a schedule has `boundaries.length + 1` tiers. `labels` names each tier, lowest first.
+ */
+export type TierSchedule = {
+  name: string,
+  metric: ActivityMetric,
+  boundaries: bigint[],
+  labels?: string[],
+}
+
+export const tierScheduleNames = ['mainnet-gas', 'mainnet-fee', 'rollup-gas', 'rollup-fee', 'five-tier'] as const;
+
+export type TierScheduleName = typeof tierScheduleNames[number];
+
+const gwei = BigInt(1000000000);
+
+function createTierSchedule(
+    name: TierScheduleName, metric: ActivityMetric, boundaries: bigint[], labels?: string[]
+): TierSchedule {
+  for (let i = 1; i < boundaries.length; i++) {
+    if (boundaries[i] <= boundaries[i - 1]) {
+      throw new Error(`Invalid tier schedule ${name}: boundaries must be increasing`);
+    }
+  }
+  if (labels && labels.length !== boundaries.length + 1) {
+    throw new Error(`Invalid tier schedule ${name}: expected ${boundaries.length + 1} labels`);
+  }
+  return {name, metric, boundaries, labels};
+}
+
+const tierSchedules: Record<TierScheduleName, TierSchedule> = {
+  'mainnet-gas': createTierSchedule('mainnet-gas', 'gas_used',
+      [50000, 100000, 500000, 1000000, 5000000, 10000000, 50000000].map(BigInt)),
+  // From 0.0005 ETH to 0.5 ETH
+  'mainnet-fee': createTierSchedule('mainnet-fee', 'fee_paid',
+      [5, 10, 50, 100, 500, 1000, 5000].map(n => BigInt(n) * BigInt(100000) * gwei)),
+  // Rollup gas counts the L1 data as well, and cheap transactions are sent more often
+  'rollup-gas': createTierSchedule('rollup-gas', 'gas_used',
+      [500000, 1000000, 5000000, 10000000, 50000000, 100000000, 500000000].map(BigInt)),
+  // From 0.00005 ETH to 0.05 ETH
+  'rollup-fee': createTierSchedule('rollup-fee', 'fee_paid',
+      [5, 10, 50, 100, 500, 1000, 5000].map(n => BigInt(n) * BigInt(10000) * gwei)),
+  'five-tier': createTierSchedule('five-tier', 'gas_used',
+      [100000, 1000000, 10000000, 50000000].map(BigInt),
+      ['Ember', 'Blaze', 'Inferno', 'Wildfire', 'Supernova']),
+};
+
+const networkTierSchedules: Record<Network, Record<ActivityMetric, TierScheduleName>> = {
+  mainnet: {gas_used: 'mainnet-gas', fee_paid: 'mainnet-fee'},
+  arbitrum: {gas_used: 'rollup-gas', fee_paid: 'rollup-fee'},
+  basechain: {gas_used: 'rollup-gas', fee_paid: 'rollup-fee'},
+  sepolia: {gas_used: 'mainnet-gas', fee_paid: 'mainnet-fee'},
+  holesky: {gas_used: 'mainnet-gas', fee_paid: 'mainnet-fee'},
+};
+
+/**
+ * Looks up the default schedule of the metric, tuned for mainnet.
+ *
+ * @param {ActivityMetric} [metric='gas_used'] - The metric.
+ * @returns {TierSchedule} - The schedule.
+ */
+export function getDefaultTierSchedule(metric: ActivityMetric = 'gas_used'): TierSchedule {
+  return tierSchedules[networkTierSchedules.mainnet[metric]];
+}
+
+/**
+ * Selects the tier schedule of a collection or of the counted chains.
+ *
+ * A named schedule wins. Otherwise the chains pick their own schedule when they all share one,
+ * as gas units and fees of mainnet and rollups don't compare, and the mainnet schedule applies.
+ *
+ * @param {ActivityMetric} metric - The metric of the values.
+ * @param {Network[]} networks - The chains the values are counted on.
+ * @param {string} [name] - The schedule name of the collection.
+ * @returns {TierSchedule} - The schedule.
+ * @throws {Error} - If the named schedule does not exist or is for another metric.
+ */
+export function selectTierSchedule(metric: ActivityMetric, networks: Network[], name?: string): TierSchedule {
+  if (name) {
+    const scheduleName = tierScheduleNames.find(n => n === name);
+    if (scheduleName === undefined) {
+      throw new Error(`Unknown tier schedule: ${name}, expected one of ${tierScheduleNames.join(', ')}`);
+    }
+    const schedule = tierSchedules[scheduleName];
+    if (schedule.metric !== metric) {
+      throw new Error(`Tier schedule ${name} is for ${schedule.metric}, not ${metric}`);
+    }
+    return schedule;
+  }
+
+  const names = networks.map(network => networkTierSchedules[network][metric]);
+  if (names.length > 0 && names.every(n => n === names[0])) {
+    return tierSchedules[names[0]];
+  }
+  return getDefaultTierSchedule(metric);
+}
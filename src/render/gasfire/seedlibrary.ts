@@ -0,0 +1,139 @@
+import {BezierFire, BezierLine, Point, Rect} from "@/render/gasfire/bezierfire";
+import classicSeed from "@/render/gasfire/seeds/classic.json";
+import tallSeed from "@/render/gasfire/seeds/tall.json";
+import wideSeed from "@/render/gasfire/seeds/wide.json";
+import twinTongueSeed from "@/render/gasfire/seeds/twin-tongue.json";
+
+export const seedNames = ['classic', 'tall', 'wide', 'twin-tongue'] as const;
+
+export type SeedName = typeof seedNames[number];
+
+// Only the classic seed, as picking among several seeds draws from the sequence and changes the existing art
+export const defaultSeeds: SeedName[] = ['classic'];
+
+/**
+ * The JSON format of a seed file in `seeds/`.
+ *
+ * The path starts at `start` and must end there, `frame` is the box projected by the generator,
+ * whose bottom edge stays fixed, and `fireBase` is the point the flames are aligned and the inner flames scaled on.
+ * Coordinates are on the `baseImageSize` square.
+ */
+export type BezierFireSeed = {
+  name: string,
+  frame: Rect,
+  start: Point,
+  points: BezierLine[],
+  fireBase: Point,
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readNumbers<K extends string>(value: unknown, keys: readonly K[], path: string): Record<K, number> {
+  if (!isObject(value)) {
+    throw new Error(`${path} must be an object`);
+  }
+  const result = {} as Record<K, number>;
+  for (const key of keys) {
+    const n = value[key];
+    if (typeof n !== 'number' || !isFinite(n)) {
+      throw new Error(`${path}.${key} must be a finite number`);
+    }
+    result[key] = n;
+  }
+  return result;
+}
+
+/**
+ * Validates a seed file and creates its BezierFire.
+ *
+ * @param {unknown} json - The parsed seed file.
+ * @param {string} source - The seed file name, used in errors.
+ * @returns {BezierFire} - The seed flame.
+ * @throws {Error} - If the seed does not match the `BezierFireSeed` format.
+ */
+export function parseBezierFireSeed(json: unknown, source: string): BezierFire {
+  if (!isObject(json)) {
+    throw new Error(`Invalid seed ${source}: not an object`);
+  }
+  try {
+    if (typeof json.name !== 'string' || json.name.length === 0) {
+      throw new Error('name must be a non-empty string');
+    }
+    const frame = readNumbers(json.frame, ['x1', 'y1', 'x2', 'y2'], 'frame');
+    if (frame.x1 >= frame.x2 || frame.y1 >= frame.y2) {
+      throw new Error('frame must have a positive width and height');
+    }
+    const start = readNumbers(json.start, ['x', 'y'], 'start');
+    if (!Array.isArray(json.points) || json.points.length === 0) {
+      throw new Error('points must be a non-empty array');
+    }
+    const points = json.points.map((point, i) =>
+        readNumbers(point, ['cp1x', 'cp1y', 'cp2x', 'cp2y', 'x', 'y'], `points[${i}]`));
+    const last = points[points.length - 1];
+    if (last.x !== start.x || last.y !== start.y) {
+      throw new Error('the last point must close the path at start');
+    }
+    const fireBase = readNumbers(json.fireBase, ['x', 'y'], 'fireBase');
+    if (fireBase.x < frame.x1 || fireBase.x > frame.x2 || fireBase.y < frame.y1 || fireBase.y > frame.y2) {
+      throw new Error('fireBase must be inside the frame');
+    }
+    return new BezierFire(frame, start, points, fireBase);
+  } catch (e) {
+    throw new Error(`Invalid seed ${source}: ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Serializes a flame into the seed file format, e.g. to add a shape converted from SVG to the library.
+ *
+ * @param {string} name - The seed name.
+ * @param {BezierFire} fire - The flame.
+ * @returns {BezierFireSeed} - The seed file content.
+ */
+export function toBezierFireSeed(name: string, fire: BezierFire): BezierFireSeed {
+  return {name, frame: fire.frame, start: fire.start, points: fire.points, fireBase: fire.fireBase};
+}
+
+const seedLibrary: Record<SeedName, BezierFire> = {
+  'classic': parseBezierFireSeed(classicSeed, 'classic.json'),
+  'tall': parseBezierFireSeed(tallSeed, 'tall.json'),
+  'wide': parseBezierFireSeed(wideSeed, 'wide.json'),
+  'twin-tongue': parseBezierFireSeed(twinTongueSeed, 'twin-tongue.json'),
+};
+
+/**
+ * Looks up the seed flames by name, in the given order.
+ *
+ * @param {SeedName[]} names - The seed names.
+ * @returns {BezierFire[]} - The seed flames.
+ */
+export function getBezierFireSeeds(names: SeedName[] = defaultSeeds): BezierFire[] {
+  return names.map(name => seedLibrary[name]);
+}
+
+/**
+ * Parses a comma separated list of seed names, e.g. `classic,tall`.
+ *
+ * @param {string | null} param - The raw `seeds` query parameter.
+ * @returns {SeedName[]} - The deduplicated seed names, or the default seeds when the parameter is empty.
+ * @throws {Error} - If one of the seeds does not exist.
+ */
+export function parseSeedNames(param: string | null): SeedName[] {
+  if (!param) {
+    return defaultSeeds;
+  }
+
+  const names: SeedName[] = [];
+  for (const name of param.split(',').map(n => n.trim()).filter(n => n.length > 0)) {
+    const seedName = seedNames.find(n => n === name);
+    if (seedName === undefined) {
+      throw new Error(`Unknown seed: ${name}`);
+    }
+    if (!names.includes(seedName)) {
+      names.push(seedName);
+    }
+  }
+  return names.length > 0 ? names : defaultSeeds;
+}
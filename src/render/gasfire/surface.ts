@@ -0,0 +1,264 @@
+/**
+ * The subset of the 2D canvas API used by the renderer.
+ * Both `SKRSContext2D` and the browser's `CanvasRenderingContext2D` satisfy it, as does `SvgSurface`.
+ */
+export interface DrawingSurface {
+  fillStyle: string | CanvasGradient | CanvasPattern;
+  strokeStyle: string | CanvasGradient | CanvasPattern;
+  lineWidth: number;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+
+  beginPath(): void;
+
+  moveTo(x: number, y: number): void;
+
+  lineTo(x: number, y: number): void;
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void;
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise?: boolean): void;
+
+  closePath(): void;
+
+  fill(): void;
+
+  stroke(): void;
+
+  fillRect(x: number, y: number, width: number, height: number): void;
+
+  save(): void;
+
+  restore(): void;
+
+  translate(x: number, y: number): void;
+
+  scale(x: number, y: number): void;
+
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): CanvasGradient;
+
+  fillText(text: string, x: number, y: number): void;
+}
+
+type SurfaceState = {
+  fillStyle: string | CanvasGradient | CanvasPattern,
+  strokeStyle: string | CanvasGradient | CanvasPattern,
+  lineWidth: number,
+  font: string,
+  textAlign: CanvasTextAlign,
+  textBaseline: CanvasTextBaseline,
+  matrix: number[],
+}
+
+function fmt(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const textAnchors: Record<CanvasTextAlign, string> = {
+  start: 'start', left: 'start', center: 'middle', right: 'end', end: 'end',
+};
+
+const dominantBaselines: Record<CanvasTextBaseline, string> = {
+  alphabetic: 'alphabetic', bottom: 'text-after-edge', hanging: 'hanging',
+  ideographic: 'ideographic', middle: 'middle', top: 'text-before-edge',
+};
+
+/**
+ * A linear gradient of `SvgSurface`, serialized when it is filled with, in the transform of that time like a canvas.
+ */
+class SvgLinearGradient implements CanvasGradient {
+  readonly x0: number;
+  readonly y0: number;
+  readonly x1: number;
+  readonly y1: number;
+  readonly stops: { offset: number, color: string }[] = [];
+
+  constructor(x0: number, y0: number, x1: number, y1: number) {
+    this.x0 = x0;
+    this.y0 = y0;
+    this.x1 = x1;
+    this.y1 = y1;
+  }
+
+  addColorStop = (offset: number, color: string) => {
+    this.stops.push({offset, color});
+  }
+}
+
+/**
+ * A drawing surface recording the drawn paths as SVG `<path>` elements.
+ * Transforms are applied to the coordinates as they are recorded, so only uniform scales keep arcs circular.
+ */
+export class SvgSurface implements DrawingSurface {
+  fillStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  strokeStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  lineWidth: number = 1;
+  font: string = '10px sans-serif';
+  textAlign: CanvasTextAlign = 'start';
+  textBaseline: CanvasTextBaseline = 'alphabetic';
+
+  private readonly width: number;
+  private readonly height: number;
+  private readonly elements: string[] = [];
+  private readonly definitions: string[] = [];
+  private path: string[] = [];
+  // Affine transform [a, b, c, d, e, f] as in CanvasRenderingContext2D.setTransform
+  private matrix: number[] = [1, 0, 0, 1, 0, 0];
+  private readonly states: SurfaceState[] = [];
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  private colorOf = (style: string | CanvasGradient | CanvasPattern): string => {
+    if (style instanceof SvgLinearGradient) {
+      const id = `g${this.definitions.length}`;
+      const stops = style.stops.map(stop => `<stop offset="${fmt(stop.offset)}" stop-color="${stop.color}"/>`);
+      this.definitions.push(
+          `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" gradientTransform="matrix(${this.matrix.join(' ')})"`
+          + ` x1="${fmt(style.x0)}" y1="${fmt(style.y0)}" x2="${fmt(style.x1)}" y2="${fmt(style.y1)}">`
+          + stops.join('')
+          + '</linearGradient>');
+      return `url(#${id})`;
+    }
+    if (typeof style !== 'string') {
+      throw new Error('SvgSurface only supports colour strings and its own linear gradients');
+    }
+    return style;
+  }
+
+  private point = (x: number, y: number): string => {
+    const [a, b, c, d, e, f] = this.matrix;
+    return `${fmt(a * x + c * y + e)} ${fmt(b * x + d * y + f)}`;
+  }
+
+  private length = (value: number): number => {
+    const [a, b, c, d] = this.matrix;
+    return value * Math.sqrt(Math.abs(a * d - b * c));
+  }
+
+  beginPath = () => {
+    this.path = [];
+  }
+
+  moveTo = (x: number, y: number) => {
+    this.path.push(`M${this.point(x, y)}`);
+  }
+
+  lineTo = (x: number, y: number) => {
+    this.path.push(`L${this.point(x, y)}`);
+  }
+
+  bezierCurveTo = (cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number) => {
+    this.path.push(`C${this.point(cp1x, cp1y)} ${this.point(cp2x, cp2y)} ${this.point(x, y)}`);
+  }
+
+  /**
+   * Appends a circular arc with the semantics of `CanvasRenderingContext2D.arc`, split into SVG arc commands.
+   */
+  arc = (x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise: boolean = false) => {
+    const fullCircle = 2 * Math.PI;
+    let sweep = counterclockwise ? startAngle - endAngle : endAngle - startAngle;
+    sweep = sweep >= fullCircle ? fullCircle : ((sweep % fullCircle) + fullCircle) % fullCircle;
+
+    const pointAt = (angle: number) => this.point(x + radius * Math.cos(angle), y + radius * Math.sin(angle));
+    this.path.push(`${this.path.length === 0 ? 'M' : 'L'}${pointAt(startAngle)}`);
+
+    // An SVG arc can't draw a full circle, so the sweep is drawn in two halves
+    const direction = counterclockwise ? -1 : 1;
+    const sweepFlag = counterclockwise ? 0 : 1;
+    const half = sweep / 2;
+    for (const end of [startAngle + direction * half, startAngle + direction * sweep]) {
+      this.path.push(`A${fmt(this.length(radius))} ${fmt(this.length(radius))} 0 0 ${sweepFlag} ${pointAt(end)}`);
+    }
+  }
+
+  closePath = () => {
+    this.path.push('Z');
+  }
+
+  fill = () => {
+    this.elements.push(`<path d="${this.path.join('')}" fill="${this.colorOf(this.fillStyle)}"/>`);
+  }
+
+  stroke = () => {
+    this.elements.push(
+        `<path d="${this.path.join('')}" fill="none" stroke="${this.colorOf(this.strokeStyle)}" stroke-width="${fmt(this.length(this.lineWidth))}"/>`);
+  }
+
+  fillRect = (x: number, y: number, width: number, height: number) => {
+    this.beginPath();
+    this.moveTo(x, y);
+    this.lineTo(x + width, y);
+    this.lineTo(x + width, y + height);
+    this.lineTo(x, y + height);
+    this.closePath();
+    this.fill();
+  }
+
+  save = () => {
+    this.states.push({
+      fillStyle: this.fillStyle,
+      strokeStyle: this.strokeStyle,
+      lineWidth: this.lineWidth,
+      font: this.font,
+      textAlign: this.textAlign,
+      textBaseline: this.textBaseline,
+      matrix: [...this.matrix],
+    });
+  }
+
+  restore = () => {
+    const state = this.states.pop();
+    if (state) {
+      ({
+        fillStyle: this.fillStyle, strokeStyle: this.strokeStyle, lineWidth: this.lineWidth,
+        font: this.font, textAlign: this.textAlign, textBaseline: this.textBaseline, matrix: this.matrix,
+      } = state);
+    }
+  }
+
+  translate = (x: number, y: number) => {
+    const [a, b, c, d, e, f] = this.matrix;
+    this.matrix = [a, b, c, d, a * x + c * y + e, b * x + d * y + f];
+  }
+
+  scale = (x: number, y: number) => {
+    const [a, b, c, d, e, f] = this.matrix;
+    this.matrix = [a * x, b * x, c * y, d * y, e, f];
+  }
+
+  /**
+   * Appends a text element. Unlike paths, the transform is kept as an attribute so the glyphs scale with it.
+   */
+  fillText = (text: string, x: number, y: number) => {
+    this.elements.push(
+        `<text transform="matrix(${this.matrix.join(' ')})" x="${fmt(x)}" y="${fmt(y)}"`
+        + ` style="font:${escapeXml(this.font)}" text-anchor="${textAnchors[this.textAlign]}"`
+        + ` dominant-baseline="${dominantBaselines[this.textBaseline]}" fill="${this.colorOf(this.fillStyle)}">`
+        + escapeXml(text)
+        + '</text>');
+  }
+
+  createLinearGradient = (x0: number, y0: number, x1: number, y1: number): CanvasGradient => {
+    return new SvgLinearGradient(x0, y0, x1, y1);
+  }
+
+  /**
+   * Serializes the recorded elements into an SVG document.
+   *
+   * @returns {string} - The SVG document.
+   */
+  toSvg = (): string => {
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}">`
+        + (this.definitions.length > 0 ? `<defs>${this.definitions.join('')}</defs>` : '')
+        + this.elements.join('')
+        + '</svg>';
+  }
+}
@@ -0,0 +1,229 @@
+import {BezierFire, BezierLine, Point} from "@/render/gasfire/bezierfire";
+
+export type SvgPathOptions = {
+  fireBase?: Point,
+}
+
+type Token = string | number;
+
+const tokenPattern = /([MmCcSsQqTtLlHhVvZzAa])|([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)|([\s,]+)/g;
+
+// Arcs are tokenized so they are reported as unsupported rather than as invalid data
+const supportedCommands = 'mlhvcsqtz';
+
+function tokenize(d: string): Token[] {
+  const tokens: Token[] = [];
+  tokenPattern.lastIndex = 0;
+  while (tokenPattern.lastIndex < d.length) {
+    const position = tokenPattern.lastIndex;
+    const match = tokenPattern.exec(d);
+    if (match === null || match.index !== position) {
+      throw new Error(`Invalid path data at ${position}: ${d.slice(position, position + 10)}`);
+    }
+    if (match[1] !== undefined) {
+      tokens.push(match[1]);
+    } else if (match[2] !== undefined) {
+      tokens.push(Number(match[2]));
+    }
+  }
+  return tokens;
+}
+
+function lineTo(from: Point, to: Point): BezierLine {
+  return {
+    cp1x: from.x + (to.x - from.x) / 3, cp1y: from.y + (to.y - from.y) / 3,
+    cp2x: from.x + (to.x - from.x) * 2 / 3, cp2y: from.y + (to.y - from.y) * 2 / 3,
+    x: to.x, y: to.y,
+  };
+}
+
+function quadraticTo(from: Point, control: Point, to: Point): BezierLine {
+  return {
+    cp1x: from.x + (control.x - from.x) * 2 / 3, cp1y: from.y + (control.y - from.y) * 2 / 3,
+    cp2x: to.x + (control.x - to.x) * 2 / 3, cp2y: to.y + (control.y - to.y) * 2 / 3,
+    x: to.x, y: to.y,
+  };
+}
+
+/**
+ * Converts SVG path data into a BezierFire, promoting lines and quadratic curves to cubic curves.
+ *
+ * The path must be a single closed subpath. M, L, H, V, C, S, Q, T and Z are supported, absolute and relative,
+ * arcs are not. The frame is the bounding box of the path, and the fire base defaults to its horizontal center,
+ * three quarters of the way down, like the stock seeds.
+ *
+ * @param {string} d - The `d` attribute of the path.
+ * @param {SvgPathOptions} [options] - The fire base, in path coordinates.
+ * @returns {BezierFire} - The flame.
+ * @throws {Error} - If the path data is invalid or not a single closed subpath.
+ */
+export function parseSvgPath(d: string, options: SvgPathOptions = {}): BezierFire {
+  const tokens = tokenize(d);
+  const points: BezierLine[] = [];
+  let start: Point | undefined;
+  let current: Point = {x: 0, y: 0};
+  let command = '';
+  let closed = false;
+  // The control point reflected by S and T, when the previous command is a curve of the same kind
+  let lastCubicControl: Point | undefined;
+  let lastQuadraticControl: Point | undefined;
+  let i = 0;
+
+  const next = (): number => {
+    const token = tokens[i++];
+    if (typeof token !== 'number') {
+      throw new Error(`Missing argument of ${command} command`);
+    }
+    return token;
+  };
+
+  while (i < tokens.length) {
+    // Repeated commands may omit the letter
+    if (typeof tokens[i] === 'string') {
+      command = tokens[i++] as string;
+    } else if (command === '' || command.toLowerCase() === 'z') {
+      throw new Error(`Unexpected number ${tokens[i]} without a command`);
+    }
+    const lower = command.toLowerCase();
+    if (supportedCommands.indexOf(lower) < 0) {
+      throw new Error(`Unsupported path command: ${command}`);
+    }
+    if (closed) {
+      throw new Error('Path must have a single subpath');
+    }
+    const relative = command !== command.toUpperCase();
+    const ox = relative ? current.x : 0;
+    const oy = relative ? current.y : 0;
+
+    if (lower === 'm') {
+      if (start !== undefined) {
+        throw new Error('Path must have a single subpath');
+      }
+      current = {x: ox + next(), y: oy + next()};
+      start = current;
+      // Further coordinate pairs are implicit line commands
+      command = relative ? 'l' : 'L';
+      lastCubicControl = lastQuadraticControl = undefined;
+      continue;
+    }
+    if (start === undefined) {
+      throw new Error('Path must start with a move command');
+    }
+
+    let line: BezierLine;
+    let cubicControl: Point | undefined;
+    let quadraticControl: Point | undefined;
+    switch (lower) {
+      case 'l':
+        line = lineTo(current, {x: ox + next(), y: oy + next()});
+        break;
+      case 'h':
+        line = lineTo(current, {x: ox + next(), y: current.y});
+        break;
+      case 'v':
+        line = lineTo(current, {x: current.x, y: oy + next()});
+        break;
+      case 'c': {
+        const cp1 = {x: ox + next(), y: oy + next()};
+        cubicControl = {x: ox + next(), y: oy + next()};
+        line = {cp1x: cp1.x, cp1y: cp1.y, cp2x: cubicControl.x, cp2y: cubicControl.y, x: ox + next(), y: oy + next()};
+        break;
+      }
+      case 's': {
+        const cp1 = lastCubicControl
+            ? {x: 2 * current.x - lastCubicControl.x, y: 2 * current.y - lastCubicControl.y}
+            : current;
+        cubicControl = {x: ox + next(), y: oy + next()};
+        line = {cp1x: cp1.x, cp1y: cp1.y, cp2x: cubicControl.x, cp2y: cubicControl.y, x: ox + next(), y: oy + next()};
+        break;
+      }
+      case 'q':
+        quadraticControl = {x: ox + next(), y: oy + next()};
+        line = quadraticTo(current, quadraticControl, {x: ox + next(), y: oy + next()});
+        break;
+      case 't':
+        quadraticControl = lastQuadraticControl
+            ? {x: 2 * current.x - lastQuadraticControl.x, y: 2 * current.y - lastQuadraticControl.y}
+            : current;
+        line = quadraticTo(current, quadraticControl, {x: ox + next(), y: oy + next()});
+        break;
+      default: {
+        // z closes the path back to its start
+        closed = true;
+        if (current.x === start.x && current.y === start.y) {
+          continue;
+        }
+        line = lineTo(current, start);
+      }
+    }
+
+    points.push(line);
+    current = {x: line.x, y: line.y};
+    lastCubicControl = cubicControl;
+    lastQuadraticControl = quadraticControl;
+  }
+
+  if (start === undefined || points.length === 0) {
+    throw new Error('Path has no segments');
+  }
+  if (!closed) {
+    throw new Error('Path must be closed with a Z command');
+  }
+
+  const outline = new BezierFire({x1: 0, y1: 0, x2: 0, y2: 0}, start, points, start);
+  const frame = outline.calculateBoundingBox();
+  const fireBase = options.fireBase ?? {
+    x: (frame.x1 + frame.x2) / 2,
+    y: frame.y1 + (frame.y2 - frame.y1) * 3 / 4,
+  };
+  return new BezierFire(frame, start, points, fireBase);
+}
+
+function attributeOf(element: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(element);
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+function numberAttributeOf(element: string, name: string): number {
+  const value = Number(attributeOf(element, name));
+  if (!isFinite(value)) {
+    throw new Error(`Marker must have a numeric ${name} attribute`);
+  }
+  return value;
+}
+
+/**
+ * Converts an SVG document exported by a design tool into a BezierFire.
+ *
+ * The flame is the path with the id `flame`, or the only path of the document. The fire base is read from
+ * a `circle` or `ellipse` with the id `fireBase` when there is one, otherwise from the options.
+ * Transforms are not applied, so they must be flattened on export.
+ *
+ * @param {string} svg - The SVG document.
+ * @param {SvgPathOptions} [options] - The fire base used when the document has no marker.
+ * @returns {BezierFire} - The flame.
+ * @throws {Error} - If the flame path is missing, ambiguous or invalid.
+ */
+export function parseSvgDocument(svg: string, options: SvgPathOptions = {}): BezierFire {
+  const paths = svg.match(/<path\b[^>]*>/g) ?? [];
+  const flamePaths = paths.filter(path => attributeOf(path, 'id') === 'flame');
+  const candidates = flamePaths.length > 0 ? flamePaths : paths;
+  if (candidates.length !== 1) {
+    throw new Error(`Expected a single flame path, found ${candidates.length}`);
+  }
+  const path = candidates[0];
+  if (attributeOf(path, 'transform') !== undefined) {
+    throw new Error('Flame path must not have a transform');
+  }
+  const d = attributeOf(path, 'd');
+  if (d === undefined) {
+    throw new Error('Flame path has no d attribute');
+  }
+
+  const marker = (svg.match(/<(?:circle|ellipse)\b[^>]*>/g) ?? [])
+      .find(element => attributeOf(element, 'id') === 'fireBase');
+  const fireBase = marker
+      ? {x: numberAttributeOf(marker, 'cx'), y: numberAttributeOf(marker, 'cy')}
+      : options.fireBase;
+  return parseSvgPath(d, {fireBase});
+}
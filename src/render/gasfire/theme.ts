@@ -0,0 +1,101 @@
+/**
+ * A vertical linear gradient across the flame, from its tip to its base.
+ */
+export type FlameGradient = {
+  from: string,
+  to: string,
+}
+
+export type FlameFill = string | FlameGradient;
+
+export type TieredFireColor = {
+  name: string,
+  outer: FlameFill,
+  middle: FlameFill,
+  inner: FlameFill,
+}
+
+/**
+ * The colours of a collection.
+ *
+ * `palettes` holds one palette per tier, lowest first. The flames are outlined by a `halo` drawn behind
+ * a `stroke` ring, and `background` fills the image unless the request sets its own, transparent when missing.
+ */
+export type Theme = {
+  name: string,
+  palettes: TieredFireColor[],
+  halo: FlameFill,
+  stroke: FlameFill,
+  background?: string,
+}
+
+export const themeNames = ['default', 'dark', 'colorblind'] as const;
+
+export type ThemeName = typeof themeNames[number];
+
+const defaultTheme: Theme = {
+  name: 'default',
+  palettes: [
+    {name: 'Smoke', outer: '#414141', middle: '#797979', inner: '#ffffff'},
+    {name: 'Ember', outer: '#f86124', middle: '#f6a223', inner: '#f6e989'},
+    {name: 'Verdant', outer: '#408600', middle: '#46ff1d', inner: '#afff9f'},
+    {name: 'Lagoon', outer: '#124d44', middle: '#17a892', inner: '#05ffda'},
+    {name: 'Azure', outer: '#004d8a', middle: '#0c93ff', inner: '#8ee1ff'},
+    {name: 'Violet', outer: '#3d00b0', middle: '#6311ff', inner: '#b28cff'},
+    {name: 'Magenta', outer: '#ad0091', middle: '#ff35db', inner: '#ff99ec'},
+    {name: 'Crimson', outer: '#8c0000', middle: '#e80d0d', inner: '#ff9898'},
+  ],
+  halo: '#ffffff',
+  stroke: '#000000',
+};
+
+// The outer flames glow from the middle colour at the tip to the outer colour at the base
+const darkTheme: Theme = {
+  name: 'dark',
+  palettes: [
+    {name: 'Smoke', outer: {from: '#9a9a9a', to: '#414141'}, middle: '#797979', inner: '#ffffff'},
+    {name: 'Ember', outer: {from: '#f6a223', to: '#f86124'}, middle: '#f6a223', inner: '#f6e989'},
+    {name: 'Verdant', outer: {from: '#46ff1d', to: '#408600'}, middle: '#46ff1d', inner: '#afff9f'},
+    {name: 'Lagoon', outer: {from: '#17a892', to: '#124d44'}, middle: '#17a892', inner: '#05ffda'},
+    {name: 'Azure', outer: {from: '#0c93ff', to: '#004d8a'}, middle: '#0c93ff', inner: '#8ee1ff'},
+    {name: 'Violet', outer: {from: '#6311ff', to: '#3d00b0'}, middle: '#6311ff', inner: '#b28cff'},
+    {name: 'Magenta', outer: {from: '#ff35db', to: '#ad0091'}, middle: '#ff35db', inner: '#ff99ec'},
+    {name: 'Crimson', outer: {from: '#e80d0d', to: '#8c0000'}, middle: '#e80d0d', inner: '#ff9898'},
+  ],
+  halo: '#121212',
+  stroke: '#e6e6e6',
+  background: '#121212',
+};
+
+// Built on the Okabe-Ito palette, so neighbouring tiers stay distinct with the common colour vision deficiencies
+const colorblindTheme: Theme = {
+  name: 'colorblind',
+  palettes: [
+    {name: 'Smoke', outer: '#4d4d4d', middle: '#8c8c8c', inner: '#ffffff'},
+    {name: 'Sun', outer: '#a89f00', middle: '#f0e442', inner: '#fbf6c4'},
+    {name: 'Amber', outer: '#a66f00', middle: '#e69f00', inner: '#f8dc99'},
+    {name: 'Sky', outer: '#2b7fb8', middle: '#56b4e9', inner: '#c4e5f8'},
+    {name: 'Jade', outer: '#006b4e', middle: '#009e73', inner: '#8fd9c2'},
+    {name: 'Cobalt', outer: '#004b75', middle: '#0072b2', inner: '#8fc3e6'},
+    {name: 'Vermilion', outer: '#9a4400', middle: '#d55e00', inner: '#f2b58a'},
+    {name: 'Orchid', outer: '#8c4a73', middle: '#cc79a7', inner: '#f0cfe1'},
+  ],
+  halo: '#ffffff',
+  stroke: '#000000',
+};
+
+const themes: Record<ThemeName, Theme> = {
+  'default': defaultTheme,
+  'dark': darkTheme,
+  'colorblind': colorblindTheme,
+};
+
+/**
+ * Looks up a built-in theme.
+ *
+ * @param {ThemeName} [name='default'] - The theme name.
+ * @returns {Theme} - The theme.
+ */
+export function getTheme(name: ThemeName = 'default'): Theme {
+  return themes[name];
+}
@@ -1,33 +1,46 @@
-export type TieredFireColor = {
-  outer: string,
-  middle: string,
-  inner: string,
-}
+import {getTheme, Theme, TieredFireColor} from "@/render/gasfire/theme";
+import {getDefaultTierSchedule, TierSchedule} from "@/render/gasfire/schedule";
 
-const tierBoundaries: bigint[] =
-    [...[50000, 100000, 500000, 1000000, 5000000, 10000000, 50000000].map(BigInt)];
+export type TierResult = {
+  tier: number,
+  tiers: number,
+  label?: string,
+  // The share of the way from the tier's lower boundary to the next one, 1 in the top tier
+  progress: number,
+  nextBoundary?: bigint,
+}
 
-export function checkTierOf(gasUsed: bigint): number {
+export function checkTierOf(value: bigint, schedule: TierSchedule = getDefaultTierSchedule()): TierResult {
+  const boundaries = schedule.boundaries;
   let i = 0;
-  for (; i < tierBoundaries.length; i++) {
-    if (gasUsed < tierBoundaries[i]) {
+  for (; i < boundaries.length; i++) {
+    if (value < boundaries[i]) {
       break;
     }
   }
-  return i + 1;
+
+  const tier = i + 1;
+  const nextBoundary = i < boundaries.length ? boundaries[i] : undefined;
+  const lowerBoundary = i > 0 ? boundaries[i - 1] : BigInt(0);
+  const progress = nextBoundary === undefined
+      ? 1
+      : Number(value - lowerBoundary) / Number(nextBoundary - lowerBoundary);
+  return {tier, tiers: boundaries.length + 1, label: schedule.labels?.[i], progress, nextBoundary};
 }
 
-export function getTieredFireColor(tier: number): TieredFireColor {
-  const tierFireColor: TieredFireColor[] =
-      [
-        { outer: '#414141', middle: '#797979', inner: '#ffffff' },
-        { outer: '#f86124', middle: '#f6a223', inner: '#f6e989' },
-        { outer: '#408600', middle: '#46ff1d', inner: '#afff9f' },
-        { outer: '#124d44', middle: '#17a892', inner: '#05ffda' },
-        { outer: '#004d8a', middle: '#0c93ff', inner: '#8ee1ff' },
-        { outer: '#3d00b0', middle: '#6311ff', inner: '#b28cff' },
-        { outer: '#ad0091', middle: '#ff35db', inner: '#ff99ec' },
-        { outer: '#8c0000', middle: '#e80d0d', inner: '#ff9898' },
-      ];
-  return tierFireColor[tier - 1];
-}
\ No newline at end of file
+/**
+ * Picks the palette of the tier, spreading schedules with fewer tiers than palettes over the whole range
+ * so their top tier still gets the top palette.
+ *
+ * @param {TierResult} result - The tier of the value.
+ * @param {Theme} [theme] - The theme holding the palettes.
+ * @returns {TieredFireColor} - The palette.
+ */
+export function getTieredFireColor(result: TierResult, theme: Theme = getTheme()): TieredFireColor {
+  const palettes = theme.palettes;
+  if (result.tiers <= 1) {
+    return palettes[0];
+  }
+  const index = Math.round((result.tier - 1) * (palettes.length - 1) / (result.tiers - 1));
+  return palettes[Math.min(index, palettes.length - 1)];
+}
@@ -1,7 +1,7 @@
-import {SKRSContext2D as SSContext2D} from '@napi-rs/canvas';
+import {DrawingSurface} from "@/render/gasfire/surface";
 
 export function drawRect(
-    ctx: SSContext2D | CanvasRenderingContext2D,
+    ctx: DrawingSurface,
     points: number[][]
 ) {
   ctx.beginPath();
@@ -14,7 +14,7 @@ export function drawRect(
 }
 
 export function drawArc(
-    ctx: SSContext2D | CanvasRenderingContext2D,
+    ctx: DrawingSurface,
     centerX: number, centerY: number, radius: number, startAngle: number, endAngle: number) {
   ctx.beginPath();
   ctx.arc(centerX, centerY, radius, startAngle, endAngle);
@@ -1,3 +1,22 @@
+import {concat, isAddress, keccak256, stringToBytes, toBytes} from "viem";
+
+export const seedingVersions = ['v1', 'v2'] as const;
+
+/**
+ * The scheme deriving the random sequence from an address.
+ *
+ * `v1` takes the state from the last 32 hex digits of the address and samples ranges as the first renders did.
+ * `v2` takes it from the keccak256 hash of the address and a collection salt, and samples ranges without bias.
+ */
+export type SeedingVersion = typeof seedingVersions[number];
+
+export type SeedingOptions = {
+  version: SeedingVersion,
+  salt?: string,
+}
+
+const uint32Range = 0x100000000;
+
 /**
  * Represents an implementation of the XorShift algorithm for generating random numbers.
  *
@@ -8,12 +27,14 @@ export class XorShift {
   private y: number;
   private z: number;
   private w: number;
+  private readonly version: SeedingVersion;
 
-  constructor(x: number, y: number, z: number, w: number) {
+  constructor(x: number, y: number, z: number, w: number, version: SeedingVersion = 'v1') {
     this.x = x;
     this.y = y;
     this.z = z;
     this.w = w;
+    this.version = version;
   }
 
   nextInt = (): number => {
@@ -23,12 +44,72 @@ export class XorShift {
     return this.w;
   }
 
+  nextUint32 = (): number => {
+    return this.nextInt() >>> 0;
+  }
+
+  /**
+   * Picks an integer offset from `from`.
+   *
+   * In `v1` the offset is below `to - from`, biased towards small offsets, and `0` is returned for an empty range,
+   * as in the first renders. From `v2` on `to` is included, every offset is equally likely,
+   * and `from` is returned for an empty range.
+   *
+   * @param {number} from - The lower bound.
+   * @param {number} to - The upper bound.
+   * @returns {number} - The picked number.
+   */
   nextIntBet = (from: number, to: number): number => {
-    if ((to - from) <= 0) {
-      return 0;
+    if (this.version === 'v1') {
+      if ((to - from) <= 0) {
+        return 0;
+      }
+      return from + (Math.abs(this.nextInt()) % (to - from));
+    }
+
+    if (to < from) {
+      return from;
     }
+    return from + this.nextBelow(Math.floor(to - from) + 1);
+  }
 
-    return from + (Math.abs(this.nextInt()) % (to - from));
+  /**
+   * Picks a number in `[0, 1)`.
+   *
+   * @returns {number} - The picked number, a multiple of 2^-32.
+   */
+  nextFloat = (): number => {
+    return this.nextUint32() / uint32Range;
+  }
+
+  /**
+   * Picks one of the items. A single item is returned without consuming the sequence.
+   *
+   * @param {T[]} items - The items to pick from.
+   * @returns {T} - The picked item.
+   * @throws {Error} - If there is no item.
+   */
+  choice = <T>(items: readonly T[]): T => {
+    if (items.length === 0) {
+      throw new Error('No item to choose from');
+    }
+    if (items.length === 1) {
+      return items[0];
+    }
+    return items[this.version === 'v1' ? this.nextIntBet(0, items.length) : this.nextBelow(items.length)];
+  }
+
+  // Unbiased by rejecting the last, incomplete run of the range in the 32 bit outputs
+  private nextBelow = (range: number): number => {
+    if (range > uint32Range) {
+      throw new Error(`Range too large: ${range}`);
+    }
+    const limit = uint32Range - uint32Range % range;
+    let value = this.nextUint32();
+    while (value >= limit) {
+      value = this.nextUint32();
+    }
+    return value % range;
   }
 
   // Initialize deterministic random function by ethereum address.
@@ -45,4 +126,34 @@ export class XorShift {
 
     return new XorShift(ints[0], ints[1], ints[2], ints[3]);
   }
+
+  /**
+   * Creates the random sequence of the address with a seeding scheme.
+   *
+   * @param {string} address - The address, in any case, with or without the `0x` prefix.
+   * @param {SeedingOptions} [seeding] - The scheme and, from `v2` on, the salt of the collection. `v1` by default.
+   * @returns {XorShift} - The random sequence.
+   * @throws {Error} - If a `v2` address is not 20 bytes of hex.
+   */
+  static createBy(address: string, seeding: SeedingOptions = {version: 'v1'}): XorShift {
+    if (seeding.version === 'v1') {
+      return XorShift.getDeterministicRandomBy(address);
+    }
+
+    // Hashed as lowercase hex with the prefix, so the seed does not depend on how the address is written
+    const normalized = `0x${address.replace(/^0x/i, '').toLowerCase()}`;
+    if (!isAddress(normalized, {strict: false})) {
+      throw new Error(`Invalid address: ${address}`);
+    }
+    const hash = keccak256(concat([toBytes(normalized), stringToBytes(seeding.salt ?? '')]));
+    const ints: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      ints.push(parseInt(hash.slice(2 + 8 * i, 10 + 8 * i), 16));
+    }
+    // An all-zero state would only ever produce zeros
+    if ((ints[0] | ints[1] | ints[2] | ints[3]) === 0) {
+      ints[0] = 1;
+    }
+    return new XorShift(ints[0], ints[1], ints[2], ints[3], seeding.version);
+  }
 }
@@ -0,0 +1,37 @@
+declare module 'gifenc' {
+  export type Palette = number[][];
+
+  export type PixelFormat = 'rgb565' | 'rgb444' | 'rgba4444';
+
+  export type QuantizeOptions = {
+    format?: PixelFormat,
+    oneBitAlpha?: boolean | number,
+    clearAlpha?: boolean,
+    clearAlphaThreshold?: number,
+    clearAlphaColor?: number,
+  }
+
+  export type FrameOptions = {
+    palette?: Palette,
+    first?: boolean,
+    transparent?: boolean,
+    transparentIndex?: number,
+    delay?: number,
+    repeat?: number,
+    dispose?: number,
+  }
+
+  export interface GIFStream {
+    writeFrame(index: Uint8Array, width: number, height: number, opts?: FrameOptions): void;
+
+    finish(): void;
+
+    bytes(): Uint8Array;
+  }
+
+  export function GIFEncoder(opts?: { auto?: boolean, initialCapacity?: number }): GIFStream;
+
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number, options?: QuantizeOptions): Palette;
+
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: PixelFormat): Uint8Array;
+}
@@ -0,0 +1,65 @@
+import {NextRequest, NextResponse} from "next/server";
+import {ProviderError} from "@/client/gasfire/errors";
+
+export type ApiErrorCode =
+    'missing_parameter' |
+    'invalid_parameter' |
+    'invalid_address' |
+    'invalid_data' |
+    'invalid_signature' |
+    'configuration_error' |
+    'upstream_error' |
+    'upstream_unavailable' |
+    'internal_error';
+
+/**
+ * An error returned to the API client with a typed code and an HTTP status.
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+
+  constructor(code: ApiErrorCode, message: string, status: number = 400) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * Converts an error into a JSON error response of the shape `{error, code}`.
+ * Failures of upstream explorers are reported as 503 when rate-limited and 502 otherwise.
+ *
+ * @param {unknown} error - The thrown error.
+ * @returns {NextResponse} - The error response.
+ */
+export function toErrorResponse(error: unknown): NextResponse {
+  let apiError: ApiError;
+  if (error instanceof ApiError) {
+    apiError = error;
+  } else if (error instanceof ProviderError) {
+    apiError = error.rateLimited
+        ? new ApiError('upstream_unavailable', error.message, 503)
+        : new ApiError('upstream_error', error.message, 502);
+  } else {
+    console.error('Unexpected error:', error);
+    apiError = new ApiError('internal_error', 'Internal server error', 500);
+  }
+  return NextResponse.json({error: apiError.message, code: apiError.code}, {status: apiError.status});
+}
+
+/**
+ * Wraps a route handler so that thrown errors are returned as JSON error responses.
+ */
+export function withErrorHandling<C>(
+    handler: (req: NextRequest, context: C) => Promise<Response>
+): (req: NextRequest, context: C) => Promise<Response> {
+  return async (req, context) => {
+    try {
+      return await handler(req, context);
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  };
+}
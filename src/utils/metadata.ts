@@ -0,0 +1,91 @@
+import {NextRequest} from "next/server";
+import {Address, formatEther} from "viem";
+import {getImageTraits} from "@/render/gasfire/render";
+import {getTokenActivityBy} from "@/client/gasfire/tokenclient";
+import {ActivityMetric, loadActivityMetric} from "@/utils/metric";
+import {
+  parseDataParam,
+  parseEnumParam,
+  parseNetworksParam,
+  parseSeedingParam,
+  parseSeedsParam,
+  parseTierScheduleParam
+} from "@/utils/validation";
+import {getTheme, themeNames} from "@/render/gasfire/theme";
+import {defaultSeeds} from "@/render/gasfire/seedlibrary";
+
+export type MetadataAttribute = {
+  trait_type: string,
+  value: string | number,
+  display_type?: 'number',
+}
+
+/**
+ * ERC-721 metadata JSON, with the OpenSea `attributes` extension.
+ */
+export type TokenMetadata = {
+  name: string,
+  description: string,
+  image: string,
+  external_url?: string,
+  attributes: MetadataAttribute[],
+}
+
+function metricAttributeOf(metric: ActivityMetric, value: bigint): MetadataAttribute {
+  if (metric === 'fee_paid') {
+    return {trait_type: 'Fee Paid (ETH)', value: Number(formatEther(value)), display_type: 'number'};
+  }
+  // A number, as marketplaces drop numeric traits with string values, though totals beyond 2^53 are rounded
+  return {trait_type: 'Gas Used', value: Number(value), display_type: 'number'};
+}
+
+/**
+ * Builds the metadata of the gas fire of the address.
+ *
+ * The metric value is read from the `data` parameter, as signed by the verify API, or fetched from the
+ * `chains` parameter when it is missing. The image URL points to render-image, on `PUBLIC_BASE_URL` when it is set,
+ * and carries the `theme` parameter, which also names the palette, the `schedule` deciding the tier,
+ * and the `seeding` and `seeds` of the flame shapes.
+ *
+ * @param {NextRequest} req - The metadata request.
+ * @param {Address} address - The token owner address.
+ * @returns {Promise<TokenMetadata>} - The token metadata.
+ */
+export async function buildTokenMetadata(req: NextRequest, address: Address): Promise<TokenMetadata> {
+  const {searchParams, origin} = new URL(req.url);
+  const metric = loadActivityMetric();
+  const dataParam = searchParams.get('data');
+  const networks = parseNetworksParam(searchParams.get('chains'));
+  const value = dataParam !== null
+      ? parseDataParam(dataParam)
+      : (await getTokenActivityBy(address, networks))[metric];
+
+  const themeName = parseEnumParam(searchParams.get('theme'), 'theme', themeNames, 'default');
+  const schedule = parseTierScheduleParam(searchParams.get('schedule'), metric, networks);
+  const seeding = parseSeedingParam(searchParams.get('seeding'));
+  const seeds = parseSeedsParam(searchParams.get('seeds'));
+
+  const {tier, palette, fireNum} = getImageTraits(
+      address, value, metric, {theme: getTheme(themeName), schedule, seeding, seeds});
+  const baseUrl = process.env.PUBLIC_BASE_URL || origin;
+  // The image is rendered from the resolved schedule and seeding, so it doesn't depend on the chains or the configuration
+  const image = `${baseUrl}/api/v1/gasfire/render-image?address=${address}&data=${value}&schedule=${schedule.name}`
+      + `&seeding=${seeding.version}`
+      + (seeds.join(',') !== defaultSeeds.join(',') ? `&seeds=${seeds.join(',')}` : '')
+      + (themeName !== 'default' ? `&theme=${themeName}` : '');
+  const shortAddress = `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+  return {
+    name: `GasFire ${shortAddress}`,
+    description: `A tier ${tier.tier} ${tier.label ?? palette.name} flame fuelled by the gas burned by ${address}.`,
+    image,
+    external_url: baseUrl,
+    attributes: [
+      {trait_type: 'Tier', value: tier.tier, display_type: 'number'},
+      ...(tier.label ? [{trait_type: 'Rank', value: tier.label}] : []),
+      {trait_type: 'Palette', value: palette.name},
+      {trait_type: 'Flames', value: fireNum, display_type: 'number'},
+      metricAttributeOf(metric, value),
+    ],
+  };
+}
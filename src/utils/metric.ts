@@ -0,0 +1,27 @@
+import {ApiError} from "@/utils/errors";
+
+/**
+ * The activity metric driving the tier and the signed counter.
+ * `gas_used` counts gas units, `fee_paid` counts the effective fee in wei.
+ */
+export type ActivityMetric = 'gas_used' | 'fee_paid';
+
+export const activityMetrics: ActivityMetric[] = ['gas_used', 'fee_paid'];
+
+/**
+ * Loads the activity metric of this deployment from the `GASFIRE_METRIC` environment variable.
+ *
+ * @returns {ActivityMetric} - The configured metric, `gas_used` by default.
+ */
+export function loadActivityMetric(): ActivityMetric {
+  const value = process.env.GASFIRE_METRIC;
+  if (!value) {
+    return 'gas_used';
+  }
+
+  const metric = activityMetrics.find(m => m === value);
+  if (metric === undefined) {
+    throw new ApiError('configuration_error', `Unsupported GASFIRE_METRIC: ${value}`, 500);
+  }
+  return metric;
+}
@@ -1,23 +1,38 @@
 import {
+  Address,
   encodeAbiParameters,
   hashMessage,
+  hashTypedData,
   Hex,
+  isAddressEqual,
   keccak256,
   parseAbiParameters,
+  isAddress,
+  recoverAddress,
+  recoverTypedDataAddress,
+  serializeSignature,
   toBytes,
   toHex
 } from 'viem';
-import {sign} from 'viem/accounts';
+import {ApiError} from "@/utils/errors";
+import type {ActivityMetric} from "@/utils/metric";
+import type {Signer} from "@/utils/signer";
 
-export async function create_signature(privateKey: `0x${string}`, [address, result, data]: [`0x${string}`, boolean, string?]): Promise<Hex> {
+export type SignaturePayload = [`0x${string}`, boolean, string?];
+
+// The data is signed as the UTF-8 bytes of its decimal string, so it must fit in a bytes32
+export const maxSignedDataLength = 32;
+
+function hash_payload([address, result, data]: SignaturePayload): Hex {
   const encodedData = encodeAbiParameters(
       parseAbiParameters('address, bool, bytes32'),
       [address, result, toHex(data || 0, {size: 32})]);
-  const {r, s, v} = await sign({
-    hash: hashMessage({raw: toBytes(keccak256(encodedData))}),
-    privateKey: privateKey
-  });
-  // Sign the hash message using the private key
+  return hashMessage({raw: toBytes(keccak256(encodedData))});
+}
+
+export async function create_signature(signer: Signer, payload: SignaturePayload): Promise<Hex> {
+  const {r, s, v} = await signer.signDigest(hash_payload(payload));
+  // Sign the hash message using the signer's key
   // The sign function returns an object with r, s, and v components of the signature
 
   let sBigInt = BigInt(s);
@@ -30,11 +45,169 @@ export async function create_signature(privateKey: `0x${string}`, [address, resu
     // This modification is equivalent to replacing s with n - s, where n is the curve order
   }
 
-  const sHex = toHex(sBigInt);
-  // Convert the modified s value to its hexadecimal representation
+  const sHex = toHex(sBigInt, {size: 32});
+  // Convert the modified s value to its 32 bytes hexadecimal representation
 
   const signature = `0x${r.slice(2)}${sHex.slice(2)}` as Hex;
   // Construct the final signature by concatenating the r and modified s values in hexadecimal format
   // The resulting signature is prefixed with "0x" and cast as a Hex type
   return signature;
 }
+
+export type SignatureVerification = {
+  signer: Address,
+  valid: boolean,
+}
+
+export function is_compact_signature(signature: string): signature is Hex {
+  return /^0x[0-9a-fA-F]{128}$/.test(signature);
+}
+
+export async function verify_signature(
+    signature: Hex, payload: SignaturePayload, trustedSigners: Address[]
+): Promise<SignatureVerification> {
+  if (!is_compact_signature(signature)) {
+    throw new Error('Signature must be 64 bytes');
+  }
+
+  const r = `0x${signature.slice(2, 66)}` as Hex;
+  const yParityAndS = BigInt(`0x${signature.slice(66)}`);
+  // The high bit of the second half carries the recovery parameter set by create_signature
+
+  const yParity = Number(yParityAndS >> BigInt(255));
+  const s = toHex(yParityAndS & ((BigInt(1) << BigInt(255)) - BigInt(1)), {size: 32});
+  // Clearing the high bit restores the original s value
+
+  const signer = await recoverAddress({hash: hash_payload(payload), signature: {r, s, yParity}});
+  return {signer, valid: trustedSigners.some(trusted => isAddressEqual(signer, trusted))};
+}
+
+export type SignatureMode = 'compact' | 'eip712';
+
+export type Eip712Domain = {
+  name: string,
+  version: string,
+  chainId: number,
+  verifyingContract: Address,
+}
+
+export type SignatureConfig = {
+  mode: 'compact',
+} | {
+  mode: 'eip712',
+  domain: Eip712Domain,
+  ttlSeconds: number,
+}
+
+/**
+ * The eligibility of an address with its counter, the value of the configured activity metric.
+ */
+export type EligibilityMessage = {
+  address: Address,
+  eligible: boolean,
+  metric: ActivityMetric,
+  value: bigint,
+  nonce: bigint,
+  deadline: bigint,
+}
+
+// The typed field of the counter is named after the metric, so a fee can't be taken for gas units on chain
+export const eligibilityValueFields = {
+  gas_used: 'gasUsed',
+  fee_paid: 'feePaid',
+} as const satisfies Record<ActivityMetric, string>;
+
+export function eligibility_types_of(metric: ActivityMetric) {
+  return {
+    Eligibility: [
+      {name: 'address', type: 'address'},
+      {name: 'eligible', type: 'bool'},
+      {name: eligibilityValueFields[metric], type: 'uint256'},
+      {name: 'nonce', type: 'uint256'},
+      {name: 'deadline', type: 'uint256'},
+    ],
+  };
+}
+
+/**
+ * Loads the signature mode from the environment.
+ * The EIP-712 mode binds signatures to a chain and contract, and expires them after `EIP712_TTL_SECONDS`.
+ */
+export function load_signature_config(): SignatureConfig {
+  const mode = process.env.SIGNATURE_MODE || 'compact';
+  if (mode === 'compact') {
+    return {mode};
+  }
+  if (mode !== 'eip712') {
+    throw new ApiError('configuration_error', `Unsupported SIGNATURE_MODE: ${mode}`, 500);
+  }
+
+  const chainId = Number(process.env.EIP712_CHAIN_ID);
+  const verifyingContract = process.env.EIP712_VERIFYING_CONTRACT ?? '';
+  if (!Number.isInteger(chainId) || chainId <= 0 || !isAddress(verifyingContract)) {
+    throw new ApiError('configuration_error', 'EIP712_CHAIN_ID and EIP712_VERIFYING_CONTRACT must be set', 500);
+  }
+  const ttlSeconds = Number(process.env.EIP712_TTL_SECONDS || 3600);
+  if (!Number.isSafeInteger(ttlSeconds) || ttlSeconds <= 0) {
+    throw new ApiError('configuration_error', 'EIP712_TTL_SECONDS must be a positive number of seconds', 500);
+  }
+  return {
+    mode,
+    domain: {
+      name: process.env.EIP712_NAME || 'GasFire',
+      version: process.env.EIP712_VERSION || '1',
+      chainId,
+      verifyingContract,
+    },
+    ttlSeconds,
+  };
+}
+
+export function create_typed_data(
+    domain: Eip712Domain, {address, eligible, metric, value, nonce, deadline}: EligibilityMessage
+) {
+  return {
+    domain,
+    types: eligibility_types_of(metric),
+    primaryType: 'Eligibility' as const,
+    message: {address, eligible, [eligibilityValueFields[metric]]: value, nonce, deadline},
+  };
+}
+
+export async function create_typed_signature(
+    signer: Signer, domain: Eip712Domain, message: EligibilityMessage
+): Promise<Hex> {
+  const {r, s, v} = await signer.signDigest(hashTypedData(create_typed_data(domain, message)));
+  return serializeSignature({r, s, v});
+}
+
+export type TypedSignatureVerification = SignatureVerification & {
+  expired: boolean,
+}
+
+export function is_typed_signature(signature: string): signature is Hex {
+  return /^0x[0-9a-fA-F]{130}$/.test(signature);
+}
+
+/**
+ * Recovers the signer of an eligibility message signed by `create_typed_signature`.
+ *
+ * @param {Hex} signature - The 65 bytes signature.
+ * @param {Eip712Domain} domain - The configured domain.
+ * @param {EligibilityMessage} message - The signed message, with its nonce and deadline.
+ * @param {Address[]} trustedSigners - The signers whose signatures are accepted.
+ * @param {bigint} now - The current time in seconds.
+ * @returns {Promise<TypedSignatureVerification>} - The signer, valid when it is trusted and the deadline hasn't passed.
+ */
+export async function verify_typed_signature(
+    signature: Hex, domain: Eip712Domain, message: EligibilityMessage, trustedSigners: Address[], now: bigint
+): Promise<TypedSignatureVerification> {
+  if (!is_typed_signature(signature)) {
+    throw new Error('Signature must be 65 bytes');
+  }
+
+  const signer = await recoverTypedDataAddress({...create_typed_data(domain, message), signature});
+  const expired = message.deadline < now;
+  const trusted = trustedSigners.some(trusted => isAddressEqual(signer, trusted));
+  return {signer, valid: trusted && !expired, expired};
+}
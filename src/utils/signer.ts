@@ -0,0 +1,198 @@
+import {createDecipheriv, pbkdf2, scrypt} from 'crypto';
+import {readFile} from 'fs/promises';
+import {promisify} from 'util';
+import axios from 'axios';
+import {
+  Address,
+  concat,
+  getAddress,
+  Hex,
+  isAddressEqual,
+  isHex,
+  keccak256,
+  parseSignature,
+  recoverAddress,
+  size,
+  toHex
+} from 'viem';
+import {privateKeyToAddress, sign} from 'viem/accounts';
+import {ApiError} from "@/utils/errors";
+import {ProviderError} from "@/client/gasfire/errors";
+import {requireEnv} from "@/utils/validation";
+
+export type DigestSignature = {
+  r: Hex,
+  s: Hex,
+  v: bigint,
+}
+
+/**
+ * Signs 32 bytes digests with a key held by one of the signer backends.
+ */
+export interface Signer {
+  readonly address: Address;
+
+  signDigest(hash: Hex): Promise<DigestSignature>;
+}
+
+/**
+ * Signs with a private key held in process memory.
+ */
+export class PrivateKeySigner implements Signer {
+  readonly address: Address;
+  private readonly privateKey: Hex;
+
+  constructor(privateKey: Hex) {
+    this.privateKey = privateKey;
+    this.address = privateKeyToAddress(privateKey);
+  }
+
+  signDigest = async (hash: Hex): Promise<DigestSignature> => {
+    const {r, s, v} = await sign({hash, privateKey: this.privateKey});
+    return {r, s, v: v!!};
+  }
+}
+
+type KeystoreV3 = {
+  crypto: {
+    cipher: string,
+    ciphertext: string,
+    cipherparams: { iv: string },
+    kdf: 'scrypt' | 'pbkdf2',
+    kdfparams: {
+      dklen: number,
+      salt: string,
+      n?: number, r?: number, p?: number, // scrypt
+      c?: number, prf?: string, // pbkdf2
+    },
+    mac: string,
+  },
+}
+
+/**
+ * Unlocks an encrypted JSON keystore (Web3 Secret Storage v3) into an in-process key.
+ */
+export class KeystoreSigner {
+  /**
+   * @param {string} json - The keystore file content.
+   * @param {string} password - The keystore password.
+   * @returns {Promise<PrivateKeySigner>} - A signer holding the decrypted key.
+   * @throws {Error} - If the password is wrong or the keystore is not supported.
+   */
+  static async unlock(json: string, password: string): Promise<PrivateKeySigner> {
+    const keystore = JSON.parse(json);
+    const {cipher, ciphertext, cipherparams, kdf, kdfparams, mac} = (keystore.crypto ?? keystore.Crypto) as KeystoreV3['crypto'];
+    if (cipher !== 'aes-128-ctr') {
+      throw new Error(`Unsupported keystore cipher: ${cipher}`);
+    }
+
+    const salt = Buffer.from(kdfparams.salt, 'hex');
+    let derivedKey: Buffer;
+    if (kdf === 'scrypt') {
+      const {n, r, p} = kdfparams as Required<KeystoreV3['crypto']['kdfparams']>;
+      derivedKey = await promisify<string, Buffer, number, object, Buffer>(scrypt)(
+          password, salt, kdfparams.dklen, {N: n, r, p, maxmem: 256 * n * r * p});
+    } else if (kdf === 'pbkdf2' && kdfparams.prf === 'hmac-sha256') {
+      derivedKey = await promisify(pbkdf2)(password, salt, kdfparams.c!!, kdfparams.dklen, 'sha256');
+    } else {
+      throw new Error(`Unsupported keystore kdf: ${kdf}`);
+    }
+
+    const cipherBytes = Buffer.from(ciphertext, 'hex');
+    const expectedMac = keccak256(concat([derivedKey.subarray(16, 32), cipherBytes]));
+    if (expectedMac.slice(2) !== mac.toLowerCase()) {
+      throw new Error('Invalid keystore password');
+    }
+
+    const decipher = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(cipherparams.iv, 'hex'));
+    const privateKey = Buffer.concat([decipher.update(cipherBytes), decipher.final()]);
+    return new PrivateKeySigner(toHex(privateKey));
+  }
+}
+
+/**
+ * Signs through a remote signing service.
+ *
+ * The service receives `POST {digest}` and answers `{signature}` with a 65 bytes signature of the raw digest.
+ * Its failures are upstream failures, reported as 503 when it is unavailable or rate-limited and 502 otherwise.
+ */
+export class RemoteSigner implements Signer {
+  readonly name = 'remote signer';
+  readonly address: Address;
+  private readonly url: string;
+  private readonly token?: string;
+
+  constructor(url: string, address: Address, token?: string) {
+    this.url = url;
+    this.address = address;
+    this.token = token;
+  }
+
+  signDigest = async (hash: Hex): Promise<DigestSignature> => {
+    const headers = this.token ? {Authorization: `Bearer ${this.token}`} : {};
+    let response;
+    try {
+      response = await axios.post(this.url, {digest: hash}, {headers});
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      throw new ProviderError(this.name, `signing request failed: ${(error as Error).message}`,
+          status === 429 || status === 503);
+    }
+
+    const signature = response.data?.signature;
+    if (typeof signature !== 'string' || !isHex(signature) || size(signature) !== 65) {
+      throw new ProviderError(this.name, `unexpected signing response: ${JSON.stringify(response.data)}`);
+    }
+
+    // Guard against a service signing with another key than the configured one
+    const recovered = await recoverAddress({hash, signature});
+    if (!isAddressEqual(recovered, this.address)) {
+      throw new ProviderError(this.name, `signature of ${recovered} returned instead of ${this.address}`);
+    }
+
+    const {r, s, v} = parseSignature(signature);
+    return {r, s, v: v!!};
+  }
+}
+
+let activeSigner: Promise<Signer> | undefined;
+
+async function createSigner(): Promise<Signer> {
+  const backend = process.env.SIGNER_BACKEND || 'private_key';
+  switch (backend) {
+    case 'private_key':
+      return new PrivateKeySigner(requireEnv('SIGNER_PRIVATE_KEY') as Hex);
+    case 'keystore':
+      return KeystoreSigner.unlock(await readFile(requireEnv('SIGNER_KEYSTORE_PATH'), 'utf8'), requireEnv('SIGNER_KEYSTORE_PASSWORD'));
+    case 'remote':
+      return new RemoteSigner(requireEnv('SIGNER_REMOTE_URL'), getAddress(requireEnv('SIGNER_REMOTE_ADDRESS')), process.env.SIGNER_REMOTE_TOKEN);
+    default:
+      throw new ApiError('configuration_error', `Unsupported SIGNER_BACKEND: ${backend}`, 500);
+  }
+}
+
+/**
+ * Loads the active signer selected by `SIGNER_BACKEND`. The signer is created once, so a keystore is only unlocked once.
+ *
+ * @returns {Promise<Signer>} - The active signer.
+ */
+export function loadSigner(): Promise<Signer> {
+  if (activeSigner === undefined) {
+    activeSigner = createSigner();
+    // Retry on the next call instead of caching a configuration error
+    activeSigner.catch(() => activeSigner = undefined);
+  }
+  return activeSigner;
+}
+
+/**
+ * Lists the signers whose signatures are accepted: the active signer followed by the rotated out
+ * addresses in `SIGNER_PREVIOUS_ADDRESSES`.
+ *
+ * @returns {Promise<Address[]>} - The trusted signer addresses.
+ */
+export async function loadTrustedSigners(): Promise<Address[]> {
+  const previous = (process.env.SIGNER_PREVIOUS_ADDRESSES ?? '')
+      .split(',').map(address => address.trim()).filter(address => address.length > 0).map(address => getAddress(address));
+  return [(await loadSigner()).address, ...previous];
+}
@@ -0,0 +1,249 @@
+import {Address, getAddress, isAddress} from 'viem';
+import {ApiError} from "@/utils/errors";
+import {Network, parseNetworks} from "@/client/gasfire/networks";
+import {parseSeedNames, SeedName} from "@/render/gasfire/seedlibrary";
+import {selectTierSchedule, TierSchedule} from "@/render/gasfire/schedule";
+import type {ActivityMetric} from "@/utils/metric";
+import type {RenderOptions} from "@/render/gasfire/render";
+import {getTheme, themeNames} from "@/render/gasfire/theme";
+import {overlayModes} from "@/render/gasfire/overlay";
+import {SeedingOptions, seedingVersions} from "@/render/gasfire/xorshift";
+
+const maxUint256 = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+/**
+ * Validates an address parameter. Mixed-case addresses must carry a valid EIP-55 checksum.
+ *
+ * @param {string | null} value - The raw parameter.
+ * @param {string} [name='address'] - The parameter name, used in errors.
+ * @returns {Address} - The checksummed address.
+ * @throws {ApiError} - If the parameter is missing or not an address.
+ */
+export function parseAddressParam(value: string | null, name: string = 'address'): Address {
+  if (!value) {
+    throw new ApiError('missing_parameter', `Missing ${name} parameter`);
+  }
+  if (!isAddress(value)) {
+    throw new ApiError('invalid_address', `Invalid ${name} parameter: ${value}`);
+  }
+  return getAddress(value);
+}
+
+/**
+ * Validates an unsigned 256-bit decimal parameter, such as the signed `data` counter.
+ *
+ * @param {string | null} value - The raw parameter.
+ * @param {string} [name='data'] - The parameter name, used in errors.
+ * @returns {bigint} - The parsed value. Zero is a valid value.
+ * @throws {ApiError} - If the parameter is missing or not a uint256.
+ */
+export function parseDataParam(value: string | null, name: string = 'data'): bigint {
+  if (value === null || value === '') {
+    throw new ApiError('missing_parameter', `Missing ${name} parameter`);
+  }
+  if (!/^\d+$/.test(value) || BigInt(value) > maxUint256) {
+    throw new ApiError('invalid_data', `Invalid ${name} parameter: ${value}`);
+  }
+  return BigInt(value);
+}
+
+/**
+ * Validates a boolean parameter given as `true` or `false`.
+ *
+ * @param {string | null} value - The raw parameter.
+ * @param {string} name - The parameter name, used in errors.
+ * @returns {boolean} - The parsed value.
+ * @throws {ApiError} - If the parameter is missing or not a boolean.
+ */
+export function parseBooleanParam(value: string | null, name: string): boolean {
+  if (value === null || value === '') {
+    throw new ApiError('missing_parameter', `Missing ${name} parameter`);
+  }
+  if (value !== 'true' && value !== 'false') {
+    throw new ApiError('invalid_parameter', `Invalid ${name} parameter: ${value}`);
+  }
+  return value === 'true';
+}
+
+/**
+ * Validates an integer parameter within a range.
+ *
+ * @param {string | null} value - The raw parameter.
+ * @param {string} name - The parameter name, used in errors.
+ * @param {number} min - The minimum value.
+ * @param {number} max - The maximum value.
+ * @param {number} defaultValue - The value used when the parameter is missing.
+ * @returns {number} - The parsed value.
+ * @throws {ApiError} - If the parameter is not an integer within the range.
+ */
+export function parseIntParam(value: string | null, name: string, min: number, max: number, defaultValue: number): number {
+  if (value === null || value === '') {
+    return defaultValue;
+  }
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value) || parsed < min || parsed > max) {
+    throw new ApiError('invalid_parameter', `Invalid ${name} parameter: ${value}, expected an integer from ${min} to ${max}`);
+  }
+  return parsed;
+}
+
+/**
+ * Validates a colour parameter given as `transparent` or a hex colour, with or without the leading `#`.
+ *
+ * @param {string | null} value - The raw parameter.
+ * @param {string} name - The parameter name, used in errors.
+ * @returns {string | undefined} - The hex colour with a leading `#`, or undefined when transparent or missing.
+ * @throws {ApiError} - If the parameter is not a colour.
+ */
+export function parseColorParam(value: string | null, name: string): string | undefined {
+  if (value === null || value === '' || value === 'transparent') {
+    return undefined;
+  }
+  const hex = value.startsWith('#') ? value.slice(1) : value;
+  if (!/^([0-9a-fA-F]{3}|[0-9a-fA-F]{4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/.test(hex)) {
+    throw new ApiError('invalid_parameter', `Invalid ${name} parameter: ${value}`);
+  }
+  return `#${hex}`;
+}
+
+/**
+ * Validates a parameter restricted to a set of values.
+ *
+ * @param {string | null} value - The raw parameter.
+ * @param {string} name - The parameter name, used in errors.
+ * @param {readonly T[]} allowed - The allowed values.
+ * @param {T} defaultValue - The value used when the parameter is missing.
+ * @returns {T} - The parsed value.
+ * @throws {ApiError} - If the parameter is not one of the allowed values.
+ */
+export function parseEnumParam<T extends string>(
+    value: string | null, name: string, allowed: readonly T[], defaultValue: T
+): T {
+  if (value === null || value === '') {
+    return defaultValue;
+  }
+  const found = allowed.find(candidate => candidate === value);
+  if (found === undefined) {
+    throw new ApiError('invalid_parameter', `Invalid ${name} parameter: ${value}, expected one of ${allowed.join(', ')}`);
+  }
+  return found;
+}
+
+/**
+ * Validates the `chains` parameter.
+ *
+ * @param {string | null} value - The raw parameter.
+ * @returns {Network[]} - The requested networks, or the default networks.
+ * @throws {ApiError} - If one of the networks is not supported.
+ */
+export function parseNetworksParam(value: string | null): Network[] {
+  try {
+    return parseNetworks(value);
+  } catch (e) {
+    throw new ApiError('invalid_parameter', (e as Error).message);
+  }
+}
+
+/**
+ * Validates the `seeds` parameter.
+ *
+ * @param {string | null} value - The raw parameter.
+ * @returns {SeedName[]} - The requested seed shapes, or all of them.
+ * @throws {ApiError} - If one of the seeds does not exist.
+ */
+export function parseSeedsParam(value: string | null): SeedName[] {
+  try {
+    return parseSeedNames(value);
+  } catch (e) {
+    throw new ApiError('invalid_parameter', (e as Error).message);
+  }
+}
+
+/**
+ * Validates the `schedule` parameter, falling back to the collection's `TIER_SCHEDULE` and then to the chains.
+ *
+ * @param {string | null} value - The raw parameter.
+ * @param {ActivityMetric} metric - The metric of the values.
+ * @param {Network[]} networks - The chains the values are counted on.
+ * @returns {TierSchedule} - The tier schedule.
+ * @throws {ApiError} - If the parameter, or as a 500 configuration error `TIER_SCHEDULE`,
+ *                      names an unknown schedule or one of another metric.
+ */
+export function parseTierScheduleParam(value: string | null, metric: ActivityMetric, networks: Network[]): TierSchedule {
+  try {
+    return selectTierSchedule(metric, networks, value || process.env.TIER_SCHEDULE);
+  } catch (e) {
+    if (value) {
+      throw new ApiError('invalid_parameter', (e as Error).message);
+    }
+    throw new ApiError('configuration_error', `TIER_SCHEDULE: ${(e as Error).message}`, 500);
+  }
+}
+
+/**
+ * Validates the `seeding` parameter, falling back to the collection's `SEEDING_VERSION` and then to `v1`.
+ * The salt is the collection's `SEEDING_SALT`.
+ *
+ * @param {string | null} value - The raw parameter.
+ * @returns {SeedingOptions} - The seeding scheme of the addresses.
+ * @throws {ApiError} - If the parameter, or as a 500 configuration error `SEEDING_VERSION`, names an unknown scheme.
+ */
+export function parseSeedingParam(value: string | null): SeedingOptions {
+  const salt = process.env.SEEDING_SALT || undefined;
+  if (value) {
+    return {version: parseEnumParam(value, 'seeding', seedingVersions, 'v1'), salt};
+  }
+  const configured = process.env.SEEDING_VERSION || 'v1';
+  const version = seedingVersions.find(v => v === configured);
+  if (version === undefined) {
+    throw new ApiError('configuration_error', `Unsupported SEEDING_VERSION: ${configured}`, 500);
+  }
+  return {version, salt};
+}
+
+/**
+ * Validates the parameters of an image shared by the render APIs: `theme`, `background`, `padding`, `seeds`,
+ * `schedule`, `overlay` and `seeding`.
+ *
+ * @param {URLSearchParams} searchParams - The query parameters.
+ * @param {number} width - The image width, bounding the padding.
+ * @param {number} height - The image height, bounding the padding.
+ * @param {number} minImageSize - The smallest drawing area left inside the padding.
+ * @param {ActivityMetric} metric - The metric of the values.
+ * @param {Network[]} networks - The chains the values are counted on.
+ * @returns {RenderOptions} - The render options.
+ * @throws {ApiError} - If one of the parameters is invalid.
+ */
+export function parseRenderOptionsParams(
+    searchParams: URLSearchParams, width: number, height: number, minImageSize: number,
+    metric: ActivityMetric, networks: Network[]
+): RenderOptions {
+  const maxPadding = Math.floor((Math.min(width, height) - minImageSize) / 2);
+  const theme = getTheme(parseEnumParam(searchParams.get('theme'), 'theme', themeNames, 'default'));
+  // The theme background applies unless the request sets its own, `transparent` included
+  const backgroundParam = searchParams.get('background');
+  return {
+    background: backgroundParam !== null ? parseColorParam(backgroundParam, 'background') : theme.background,
+    padding: parseIntParam(searchParams.get('padding'), 'padding', 0, maxPadding, 0),
+    seeds: parseSeedsParam(searchParams.get('seeds')),
+    theme,
+    schedule: parseTierScheduleParam(searchParams.get('schedule'), metric, networks),
+    overlay: parseEnumParam(searchParams.get('overlay'), 'overlay', overlayModes, 'none'),
+    seeding: parseSeedingParam(searchParams.get('seeding')),
+  };
+}
+
+/**
+ * Reads a required environment variable.
+ *
+ * @param {string} name - The variable name.
+ * @returns {string} - The value.
+ * @throws {ApiError} - If the variable is not set, as a 500 configuration error.
+ */
+export function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new ApiError('configuration_error', `${name} is not defined`, 500);
+  }
+  return value;
+}
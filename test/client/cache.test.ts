@@ -0,0 +1,90 @@
+import {describe, it} from 'node:test';
+import assert from 'node:assert/strict';
+import type {GeneralTxItem} from "@/client/gasfire/tokenclient";
+import type {TransactionHistory, TransactionProvider} from "@/client/gasfire/provider";
+import {CachedHistory, CachingProvider, MemoryCacheStore} from "@/client/gasfire/cache";
+
+const address = '0xd8da6bf26964af9d7eed9e03e53415d37aa96045';
+const key = `mainnet-${address}`;
+
+function txOf(hash: string, blockNumber: number): GeneralTxItem {
+  return {hash, from: address, to: address, blockNumber: String(blockNumber), gasUsed: '21000'};
+}
+
+// Answers the queued histories in order and records the start block of each request
+class QueuedProvider implements TransactionProvider {
+  readonly name = 'queued';
+  readonly startBlocks: number[] = [];
+  private readonly histories: TransactionHistory[];
+
+  constructor(histories: TransactionHistory[]) {
+    this.histories = histories;
+  }
+
+  supports = (): boolean => true;
+
+  getTransactionsOf = async (_network: string, _address: string, startBlock: number = 0): Promise<TransactionHistory> => {
+    this.startBlocks.push(startBlock);
+    return this.histories.shift()!!;
+  }
+}
+
+const complete = (transactions: GeneralTxItem[], fromBlock: number = 0): TransactionHistory =>
+    ({transactions, provider: 'etherscan', fromBlock, partial: false});
+const partial = (transactions: GeneralTxItem[], fromBlock: number): TransactionHistory =>
+    ({transactions, provider: 'rpc', fromBlock, partial: true});
+
+describe('CachingProvider', () => {
+  it('refreshes a stale entry from its last block', async () => {
+    const store = new MemoryCacheStore();
+    const provider = new QueuedProvider([complete([txOf('0x01', 10)]), complete([txOf('0x01', 10), txOf('0x02', 12)], 10)]);
+    const caching = new CachingProvider(provider, store, 0);
+
+    await caching.getTransactionsOf('mainnet', address);
+    const history = await caching.getTransactionsOf('mainnet', address);
+
+    assert.deepEqual(provider.startBlocks, [0, 10]);
+    assert.deepEqual(history.transactions.map(tx => tx.hash), ['0x01', '0x02']);
+    assert.equal(history.partial, false);
+    assert.equal((await store.get(key))?.lastBlock, 12);
+  });
+
+  it('neither caches nor merges a partial history', async () => {
+    const store = new MemoryCacheStore();
+    const provider = new QueuedProvider([
+      complete([txOf('0x01', 10)]),
+      partial([txOf('0x03', 500)], 400),
+      complete([txOf('0x01', 10), txOf('0x02', 12)], 10),
+    ]);
+    const caching = new CachingProvider(provider, store, 0);
+
+    await caching.getTransactionsOf('mainnet', address);
+    const partialHistory = await caching.getTransactionsOf('mainnet', address);
+    const history = await caching.getTransactionsOf('mainnet', address);
+
+    assert.deepEqual(partialHistory, partial([txOf('0x03', 500)], 400));
+    assert.deepEqual(provider.startBlocks, [0, 10, 10]);
+    assert.deepEqual(history.transactions.map(tx => tx.hash), ['0x01', '0x02']);
+  });
+
+  it('does not cache a partial first history', async () => {
+    const store = new MemoryCacheStore();
+    const provider = new QueuedProvider([partial([], 400)]);
+
+    assert.equal((await new CachingProvider(provider, store, 60000).getTransactionsOf('mainnet', address)).partial, true);
+    assert.equal(await store.get(key), undefined);
+  });
+
+  it('rebuilds an entry cached without its provider', async () => {
+    const store = new MemoryCacheStore();
+    // Written before the provider was recorded, possibly from a partial node scan
+    await store.set(key, {transactions: [txOf('0x03', 500)], lastBlock: 500, fetchedAt: Date.now()} as CachedHistory);
+    const provider = new QueuedProvider([complete([txOf('0x01', 10), txOf('0x03', 500)])]);
+
+    const history = await new CachingProvider(provider, store, 60000).getTransactionsOf('mainnet', address);
+
+    assert.deepEqual(provider.startBlocks, [0]);
+    assert.deepEqual(history.transactions.map(tx => tx.hash), ['0x01', '0x03']);
+    assert.equal((await store.get(key))?.provider, 'etherscan');
+  });
+});
@@ -0,0 +1,86 @@
+import {after, before, describe, it} from 'node:test';
+import assert from 'node:assert/strict';
+import type {GeneralTxItem} from "@/client/gasfire/tokenclient";
+import {EtherscanProvider} from "@/client/gasfire/etherscan";
+import {ProviderError} from "@/client/gasfire/errors";
+import {FakeRequest, FakeServer, startFakeServer} from "../support/fakeserver";
+
+const address = '0xd8da6bf26964af9d7eed9e03e53415d37aa96045';
+const resultWindow = 10000;
+
+function txOf(hash: string, blockNumber: number): GeneralTxItem {
+  return {hash, from: address, to: address, blockNumber: String(blockNumber), gasUsed: '21000', gasPrice: '1'};
+}
+
+// `count` transactions spread over the blocks from `fromBlock` to `toBlock`, both included
+function txsBetween(prefix: string, count: number, fromBlock: number, toBlock: number): GeneralTxItem[] {
+  return Array.from({length: count}, (_, i) =>
+      txOf(`${prefix}${i}`, fromBlock + Math.floor(i * (toBlock - fromBlock + 1) / count)));
+}
+
+function ok(result: GeneralTxItem[]) {
+  return {body: {status: '1', message: 'OK', result}};
+}
+
+describe('EtherscanProvider.getTransactionsOf', () => {
+  let server: FakeServer;
+  let respond: (request: FakeRequest) => ReturnType<typeof ok>;
+
+  before(async () => {
+    server = await startFakeServer(request => respond(request));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const provider = () => new EtherscanProvider('key', {mainnet: server.url});
+  const startblocksRequested = (from: number) =>
+      server.requests.slice(from).map(request => request.url.searchParams.get('startblock'));
+
+  it('restarts from the last block seen when a response fills the result window', async () => {
+    const first = txsBetween('0xa', resultWindow, 1, 100);
+    const second = [txOf('0xb0', 100), txOf('0xb1', 120)];
+    respond = request => request.url.searchParams.get('startblock') === '0' ? ok(first) : ok(second);
+
+    const requested = server.requests.length;
+    const {transactions} = await provider().getTransactionsOf('mainnet', address);
+
+    assert.deepEqual(startblocksRequested(requested), ['0', '100']);
+    assert.equal(transactions.length, resultWindow + 2);
+    assert.equal(transactions[transactions.length - 1].hash, '0xb1');
+  });
+
+  it('keeps the transactions repeated at the boundary block once', async () => {
+    const first = txsBetween('0xa', resultWindow, 1, 100);
+    const boundary = first.filter(tx => tx.blockNumber === '100');
+    const second = [...boundary, txOf('0xb0', 100), txOf('0xb1', 101)];
+    respond = request => request.url.searchParams.get('startblock') === '0' ? ok(first) : ok(second);
+
+    const {transactions} = await provider().getTransactionsOf('mainnet', address);
+
+    assert.ok(boundary.length > 0);
+    const hashes = transactions.map(tx => tx.hash);
+    assert.equal(new Set(hashes).size, hashes.length);
+    assert.equal(transactions.length, resultWindow + 2);
+  });
+
+  it('fails when a single block fills the result window', async () => {
+    respond = () => ok(txsBetween('0xc', resultWindow, 5, 5));
+
+    const requested = server.requests.length;
+    await assert.rejects(provider().getTransactionsOf('mainnet', address), (error: unknown) => {
+      assert.ok(error instanceof ProviderError);
+      assert.match(error.message, /more than 10000 transactions in block 5/);
+      return true;
+    });
+    assert.deepEqual(startblocksRequested(requested), ['0', '5']);
+  });
+
+  it('returns no transactions for an address without history', async () => {
+    respond = () => ({body: {status: '0', message: 'No transactions found', result: []}});
+
+    assert.deepEqual(await provider().getTransactionsOf('mainnet', address),
+        {transactions: [], provider: 'etherscan', fromBlock: 0, partial: false});
+  });
+});
@@ -0,0 +1,296 @@
+import {after, before, beforeEach, describe, it, mock} from 'node:test';
+import assert from 'node:assert/strict';
+import {AlchemyProvider} from "@/client/gasfire/alchemy";
+import {EtherscanProvider} from "@/client/gasfire/etherscan";
+import {JsonRpcProvider} from "@/client/gasfire/jsonrpc";
+import {FallbackProvider, TransactionHistory, TransactionProvider} from "@/client/gasfire/provider";
+import {getTokenActivityBy} from "@/client/gasfire/tokenclient";
+import {ProviderError} from "@/client/gasfire/errors";
+import {FakeRequest, FakeResponse, FakeServer, startFakeServer} from "../support/fakeserver";
+
+const address = '0xd8da6bf26964af9d7eed9e03e53415d37aa96045';
+const other = '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984';
+
+type RpcCall = { id: number, method: string, params: unknown[] };
+type RpcError = { code: number, message: string };
+
+// Answers each call of a batch by its method, a thrown `RpcError` becoming the error reply of that call
+function rpcNode(methods: Record<string, (params: unknown[]) => unknown>): (request: FakeRequest) => FakeResponse {
+  return request => ({
+    body: (request.body as RpcCall[]).map(call => {
+      try {
+        return {jsonrpc: '2.0', id: call.id, result: methods[call.method](call.params)};
+      } catch (error) {
+        return {jsonrpc: '2.0', id: call.id, error: error as RpcError};
+      }
+    }),
+  });
+}
+
+function rpcTx(hash: string, blockNumber: number | null, from: string = address, to: string = other) {
+  return {hash, from, to, blockNumber: blockNumber === null ? null : `0x${blockNumber.toString(16)}`, input: '0xa9059cbb'};
+}
+
+type AssetTransfersQuery = {
+  fromAddress?: string,
+  toAddress?: string,
+  pageKey?: string,
+  excludeZeroValue?: boolean,
+}
+
+function queryOf(params: unknown[]): AssetTransfersQuery {
+  assert.equal(typeof params[0], 'object');
+  return params[0] as AssetTransfersQuery;
+}
+
+const receipt = {status: '0x1', gasUsed: '0x5208', effectiveGasPrice: '0x3b9aca00'};
+
+function callsOf(server: FakeServer, method: string): RpcCall[] {
+  return server.requests.flatMap(request => request.body as RpcCall[]).filter(call => call.method === method);
+}
+
+describe('transaction providers', () => {
+  let server: FakeServer;
+  let respond: (request: FakeRequest) => FakeResponse;
+
+  before(async () => {
+    server = await startFakeServer(request => respond(request));
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  describe('AlchemyProvider', () => {
+    it('follows the page key of asset transfers in both directions', async () => {
+      const txs = [rpcTx('0x01', 10), rpcTx('0x02', 12), rpcTx('0x03', 11, other, address)];
+      respond = rpcNode({
+        alchemy_getAssetTransfers: params => {
+          const query = queryOf(params);
+          if (query.toAddress) {
+            return {transfers: [{hash: '0x02'}, {hash: '0x03'}]};
+          }
+          return query.pageKey === 'page-2'
+              ? {transfers: [{hash: '0x02'}]}
+              : {transfers: [{hash: '0x01'}], pageKey: 'page-2'};
+        },
+        eth_getTransactionByHash: ([hash]) => txs.find(tx => tx.hash === hash),
+        eth_getTransactionReceipt: () => receipt,
+      });
+
+      const {transactions} = await new AlchemyProvider('', {mainnet: server.url}).getTransactionsOf('mainnet', address);
+
+      const queries = callsOf(server, 'alchemy_getAssetTransfers').map(call => queryOf(call.params));
+      assert.deepEqual(queries.map(query => [query.fromAddress, query.toAddress, query.pageKey]), [
+        [address, undefined, undefined],
+        [address, undefined, 'page-2'],
+        [undefined, address, undefined],
+      ]);
+      assert.ok(queries.every(query => query.excludeZeroValue === false));
+      assert.deepEqual(transactions.map(tx => [tx.hash, tx.blockNumber]), [['0x01', '10'], ['0x03', '11'], ['0x02', '12']]);
+      assert.equal(transactions[0].gasUsed, '21000');
+      assert.equal(transactions[0].gasPrice, '1000000000');
+    });
+
+    it('skips transactions the node does not know or has not mined', async () => {
+      respond = rpcNode({
+        alchemy_getAssetTransfers: params =>
+            ({transfers: queryOf(params).fromAddress ? [{hash: '0x01'}, {hash: '0x02'}, {hash: '0x03'}] : []}),
+        eth_getTransactionByHash: ([hash]) => hash === '0x01' ? rpcTx(hash, 10) : hash === '0x02' ? rpcTx(hash, null) : null,
+        eth_getTransactionReceipt: () => receipt,
+      });
+
+      const {transactions} = await new AlchemyProvider('', {mainnet: server.url}).getTransactionsOf('mainnet', address);
+
+      assert.deepEqual(transactions.map(tx => tx.hash), ['0x01']);
+      assert.deepEqual(callsOf(server, 'eth_getTransactionReceipt').map(call => call.params[0]), ['0x01']);
+    });
+  });
+
+  describe('JsonRpcProvider', () => {
+    it('scans the latest blocks for transactions of the address', async () => {
+      respond = rpcNode({
+        eth_blockNumber: () => '0x10',
+        eth_getBlockByNumber: ([number]) => ({
+          transactions: number === '0xf' ? [rpcTx('0x01', 15), rpcTx('0x02', 15, other, other)] : [],
+        }),
+        eth_getTransactionReceipt: () => receipt,
+      });
+
+      const history = await new JsonRpcProvider({mainnet: server.url}, 3).getTransactionsOf('mainnet', address);
+
+      assert.deepEqual(callsOf(server, 'eth_getBlockByNumber').map(call => call.params[0]), ['0xe', '0xf', '0x10']);
+      assert.deepEqual(history.transactions.map(tx => tx.hash), ['0x01']);
+      assert.equal(history.fromBlock, 14);
+      assert.equal(history.partial, true);
+    });
+
+    it('reads a whole history when the start block is within the scanned blocks', async () => {
+      respond = rpcNode({
+        eth_blockNumber: () => '0x10',
+        eth_getBlockByNumber: () => ({transactions: []}),
+      });
+
+      const history = await new JsonRpcProvider({mainnet: server.url}, 3).getTransactionsOf('mainnet', address, 15);
+
+      assert.deepEqual(callsOf(server, 'eth_getBlockByNumber').map(call => call.params[0]), ['0xf', '0x10']);
+      assert.equal(history.partial, false);
+    });
+
+    it('fails the batch when one of its calls fails', async () => {
+      respond = rpcNode({
+        eth_blockNumber: () => '0x10',
+        eth_getBlockByNumber: ([number]) => {
+          if (number === '0xf') {
+            throw {code: -32000, message: 'header not found'};
+          }
+          return {transactions: []};
+        },
+      });
+
+      await assert.rejects(new JsonRpcProvider({mainnet: server.url}, 3).getTransactionsOf('mainnet', address),
+          (error: unknown) => {
+            assert.ok(error instanceof ProviderError);
+            assert.equal(error.rateLimited, false);
+            assert.match(error.message, /JSON-RPC error: header not found/);
+            return true;
+          });
+    });
+
+    it('fails when a receipt is missing', async () => {
+      respond = rpcNode({
+        eth_blockNumber: () => '0x1',
+        eth_getBlockByNumber: () => ({transactions: [rpcTx('0x01', 1)]}),
+        eth_getTransactionReceipt: () => null,
+      });
+
+      await assert.rejects(new JsonRpcProvider({mainnet: server.url}, 1).getTransactionsOf('mainnet', address),
+          /no receipt for transaction 0x01/);
+    });
+  });
+
+  describe('FallbackProvider', () => {
+    const etherscanTx = {hash: '0x01', from: address, to: other, blockNumber: '10', gasUsed: '21000', gasPrice: '1'};
+
+    // Fails the JSON-RPC node with a server error and answers the explorer
+    const nodeDownExplorerUp = (request: FakeRequest): FakeResponse => request.url.pathname === '/rpc'
+        ? {status: 500, body: {message: 'internal server error'}}
+        : {body: {status: '1', message: 'OK', result: [etherscanTx]}};
+
+    it('falls back to the next provider when one fails', async () => {
+      const warn = mock.method(console, 'warn', () => {});
+      respond = nodeDownExplorerUp;
+      const provider = new FallbackProvider([
+        new JsonRpcProvider({mainnet: `${server.url}/rpc`}),
+        new EtherscanProvider('key', {mainnet: server.url}),
+      ]);
+
+      try {
+        assert.deepEqual((await provider.getTransactionsOf('mainnet', address)).transactions, [etherscanTx]);
+      } finally {
+        warn.mock.restore();
+      }
+      assert.deepEqual(server.requests.map(request => request.url.pathname), ['/rpc', '/api']);
+      assert.equal(warn.mock.callCount(), 1);
+    });
+
+    // Answers the node with an empty recent block, so its scan is partial, and the explorer with its history
+    const nodePartialExplorerUp = (request: FakeRequest): FakeResponse => request.url.pathname === '/rpc'
+        ? rpcNode({eth_blockNumber: () => '0x10', eth_getBlockByNumber: () => ({transactions: []})})(request)
+        : {body: {status: '1', message: 'OK', result: [etherscanTx]}};
+
+    it('falls back to the next provider when one only reads a partial history', async () => {
+      const warn = mock.method(console, 'warn', () => {});
+      respond = nodePartialExplorerUp;
+      const provider = new FallbackProvider([
+        new JsonRpcProvider({mainnet: `${server.url}/rpc`}, 1),
+        new EtherscanProvider('key', {mainnet: server.url}),
+      ]);
+
+      try {
+        const history = await provider.getTransactionsOf('mainnet', address);
+        assert.deepEqual(history, {transactions: [etherscanTx], provider: 'etherscan', fromBlock: 0, partial: false});
+      } finally {
+        warn.mock.restore();
+      }
+    });
+
+    it('returns a partial history when no provider reads the whole one', async () => {
+      const warn = mock.method(console, 'warn', () => {});
+      respond = nodePartialExplorerUp;
+      const provider = new FallbackProvider([new JsonRpcProvider({mainnet: `${server.url}/rpc`}, 1)]);
+
+      try {
+        const history = await provider.getTransactionsOf('mainnet', address);
+        assert.deepEqual(history, {transactions: [], provider: 'rpc', fromBlock: 16, partial: true});
+      } finally {
+        warn.mock.restore();
+      }
+    });
+
+    it('skips providers that do not support the network', async () => {
+      respond = nodeDownExplorerUp;
+      const provider = new FallbackProvider([
+        new JsonRpcProvider({arbitrum: `${server.url}/rpc`}),
+        new EtherscanProvider('key', {mainnet: server.url}),
+      ]);
+
+      assert.deepEqual((await provider.getTransactionsOf('mainnet', address)).transactions, [etherscanTx]);
+      assert.deepEqual(server.requests.map(request => request.url.pathname), ['/api']);
+    });
+
+    it('throws the error of the last provider when all of them fail', async () => {
+      const warn = mock.method(console, 'warn', () => {});
+      respond = request => request.url.pathname === '/rpc'
+          ? nodeDownExplorerUp(request)
+          : {body: {status: '0', message: 'NOTOK', result: 'Invalid API Key'}};
+      const provider = new FallbackProvider([
+        new JsonRpcProvider({mainnet: `${server.url}/rpc`}),
+        new EtherscanProvider('key', {mainnet: server.url}),
+      ]);
+
+      try {
+        await assert.rejects(provider.getTransactionsOf('mainnet', address), (error: unknown) => {
+          assert.ok(error instanceof ProviderError);
+          assert.match(error.message, /^etherscan API failed: .*Invalid API Key/);
+          return true;
+        });
+      } finally {
+        warn.mock.restore();
+      }
+      assert.equal(warn.mock.callCount(), 2);
+    });
+  });
+});
+
+describe('getTokenActivityBy', () => {
+  const providerOf = (history: TransactionHistory): TransactionProvider => ({
+    name: history.provider,
+    supports: () => true,
+    getTransactionsOf: async () => history,
+  });
+  const tx = {hash: '0x01', from: address, to: other, blockNumber: '10', gasUsed: '21000', gasPrice: '2'};
+
+  it('counts a whole history', async () => {
+    const provider = providerOf({transactions: [tx], provider: 'etherscan', fromBlock: 0, partial: false});
+
+    const activity = await getTokenActivityBy(address, ['mainnet'], undefined, provider);
+
+    assert.equal(activity.gas_used, BigInt(21000));
+    assert.equal(activity.fee_paid, BigInt(42000));
+  });
+
+  it('refuses to count a partial history', async () => {
+    const provider = providerOf({transactions: [tx], provider: 'rpc', fromBlock: 16, partial: true});
+
+    await assert.rejects(getTokenActivityBy(address, ['mainnet'], undefined, provider), (error: unknown) => {
+      assert.ok(error instanceof ProviderError);
+      assert.match(error.message, /^rpc API failed: only the blocks from 16 on could be read on mainnet/);
+      return true;
+    });
+  });
+});
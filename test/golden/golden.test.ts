@@ -0,0 +1,16 @@
+import {before, describe, it} from 'node:test';
+import assert from 'node:assert/strict';
+import {clearDiffs, compareWithGolden, diffDir, goldenCases} from "./golden";
+
+describe('golden images', () => {
+  before(() => clearDiffs());
+
+  for (const goldenCase of goldenCases) {
+    it(`renders ${goldenCase.name} as its golden image`, () => {
+      const failure = compareWithGolden(goldenCase);
+
+      assert.equal(failure, undefined,
+          `${goldenCase.name}: ${failure}, see ${diffDir}. Run \`yarn golden:update\` if the art is meant to change.`);
+    });
+  }
+});
@@ -0,0 +1,219 @@
+import fs from 'fs';
+import path from 'path';
+import {createCanvas} from '@napi-rs/canvas';
+import UPNG from 'upng-js';
+import {renderImage, RenderOptions} from "@/render/gasfire/render";
+import {selectTierSchedule} from "@/render/gasfire/schedule";
+import {getTheme} from "@/render/gasfire/theme";
+import {defaultAnimation} from "@/render/gasfire/animation";
+import type {ActivityMetric} from "@/utils/metric";
+
+/**
+ * Golden-image regression test of the renderer.
+ *
+ * Renders a fixed corpus of addresses and tiers and compares every image against its golden PNG in `images`.
+ * Images differing beyond the tolerance fail, with the rendered image and a diff written to `diff`.
+ *
+ *   yarn test            compares the renders against the goldens, as part of the test suite (golden.test.ts)
+ *   yarn golden          compares them on their own
+ *   yarn golden:update   rewrites the goldens, when the art is meant to change
+ */
+
+export type GoldenCase = {
+  name: string,
+  address: string,
+  value: bigint,
+  metric: ActivityMetric,
+  options: RenderOptions,
+}
+
+const imageSize = 256;
+// A channel differing by at most this much is the same, so anti-aliasing changes of the canvas don't fail the run
+const channelTolerance = 8;
+// The share of differing pixels above which an image fails
+const pixelTolerance = 0.001;
+
+const imagesDir = path.join(__dirname, 'images');
+export const diffDir = path.join(__dirname, 'diff');
+
+const addresses = [
+  '0xd8dA6BF26964aF9D7eed9e03E53415D37aA96045',
+  '0x0000000000000000000000000000000000000000',
+  '0xfFfFfFfFfFfFfFfFfFfFfFfFfFfFfFfFfFfFfFfF',
+  '0x1F9840a85d5aF5bf1D1762F925BDADdC4201F984',
+];
+
+// The first tier, a middle tier and the top tier of the schedule
+const tierValues = [0, 600000, 60000000].map(BigInt);
+
+const mainnetGas = selectTierSchedule('gas_used', [], 'mainnet-gas');
+
+export const goldenCases: GoldenCase[] = [
+  ...addresses.flatMap((address, i) => tierValues.map((value, j): GoldenCase => ({
+    name: `address${i}-tier${j}`,
+    address,
+    value,
+    metric: 'gas_used',
+    options: {schedule: mainnetGas},
+  }))),
+  {
+    name: 'classic-seed',
+    address: addresses[0],
+    value: tierValues[1],
+    metric: 'gas_used',
+    options: {schedule: mainnetGas, seeds: ['classic']},
+  },
+  {
+    name: 'dark-ring-overlay',
+    address: addresses[3],
+    value: tierValues[1],
+    metric: 'gas_used',
+    options: {schedule: mainnetGas, theme: getTheme('dark'), background: '#121212', overlay: 'ring'},
+  },
+  {
+    name: 'seeding-v2',
+    address: addresses[0],
+    value: tierValues[2],
+    metric: 'gas_used',
+    options: {schedule: mainnetGas, seeding: {version: 'v2', salt: 'golden'}},
+  },
+  {
+    // A quarter into the loop, as frame 0 has no noise
+    name: 'animation-frame',
+    address: addresses[0],
+    value: tierValues[1],
+    metric: 'gas_used',
+    options: {
+      schedule: mainnetGas,
+      animation: {frame: defaultAnimation.frames / 4, frames: defaultAnimation.frames, amplitude: defaultAnimation.amplitude},
+    },
+  },
+];
+
+function render(goldenCase: GoldenCase): Uint8Array {
+  const canvas = createCanvas(imageSize, imageSize);
+  const ctx = canvas.getContext('2d');
+  renderImage(ctx, imageSize, imageSize, goldenCase.address, goldenCase.value, goldenCase.metric, goldenCase.options);
+  return new Uint8Array(ctx.getImageData(0, 0, imageSize, imageSize).data);
+}
+
+function encodePng(rgba: Uint8Array, width: number, height: number): Buffer {
+  const buffer = rgba.buffer.slice(rgba.byteOffset, rgba.byteOffset + rgba.length) as ArrayBuffer;
+  return Buffer.from(UPNG.encode([buffer], width, height, 0));
+}
+
+function decodePng(file: string): { rgba: Uint8Array, width: number, height: number } {
+  const data = fs.readFileSync(file);
+  const image = UPNG.decode(data.buffer.slice(data.byteOffset, data.byteOffset + data.length) as ArrayBuffer);
+  return {rgba: new Uint8Array(UPNG.toRGBA8(image)[0]), width: image.width, height: image.height};
+}
+
+/**
+ * Counts the differing pixels of two images of the same size, and draws them in red over a faded copy of the golden
+ * composited on white.
+ */
+function diffImages(expected: Uint8Array, actual: Uint8Array): { count: number, diff: Uint8Array } {
+  const diff = new Uint8Array(expected.length);
+  let count = 0;
+  for (let i = 0; i < expected.length; i += 4) {
+    let differs = false;
+    for (let c = 0; c < 4; c++) {
+      if (Math.abs(expected[i + c] - actual[i + c]) > channelTolerance) {
+        differs = true;
+      }
+    }
+    if (differs) {
+      count++;
+      diff.set([255, 0, 0, 255], i);
+    } else {
+      const alpha = expected[i + 3] / 255;
+      const gray = (expected[i] + expected[i + 1] + expected[i + 2]) / 3 * alpha + 255 * (1 - alpha);
+      diff.fill(Math.round(255 - (255 - gray) / 4), i, i + 3);
+      diff[i + 3] = 255;
+    }
+  }
+  return {count, diff};
+}
+
+/**
+ * Rewrites the golden images from the current renders.
+ */
+export function updateGoldens() {
+  fs.mkdirSync(imagesDir, {recursive: true});
+  for (const goldenCase of goldenCases) {
+    fs.writeFileSync(path.join(imagesDir, `${goldenCase.name}.png`), encodePng(render(goldenCase), imageSize, imageSize));
+  }
+  console.log(`Updated ${goldenCases.length} golden images in ${imagesDir}`);
+}
+
+/**
+ * Removes the renders and diffs of a previous comparison.
+ */
+export function clearDiffs() {
+  fs.rmSync(diffDir, {recursive: true, force: true});
+}
+
+/**
+ * Compares the render of a case against its golden image, writing the render and the diff to `diff` when they differ.
+ *
+ * @param {GoldenCase} goldenCase - The case.
+ * @returns {string | undefined} - Why the render doesn't match the golden, or nothing when it does.
+ */
+export function compareWithGolden(goldenCase: GoldenCase): string | undefined {
+  const goldenFile = path.join(imagesDir, `${goldenCase.name}.png`);
+  const actual = render(goldenCase);
+  const writeActual = () => {
+    fs.mkdirSync(diffDir, {recursive: true});
+    fs.writeFileSync(path.join(diffDir, `${goldenCase.name}.actual.png`), encodePng(actual, imageSize, imageSize));
+  };
+
+  if (!fs.existsSync(goldenFile)) {
+    writeActual();
+    return 'missing golden image';
+  }
+  const expected = decodePng(goldenFile);
+  if (expected.width !== imageSize || expected.height !== imageSize) {
+    writeActual();
+    return `golden image is ${expected.width}x${expected.height}`;
+  }
+
+  const {count, diff} = diffImages(expected.rgba, actual);
+  if (count / (imageSize * imageSize) > pixelTolerance) {
+    writeActual();
+    fs.writeFileSync(path.join(diffDir, `${goldenCase.name}.diff.png`), encodePng(diff, imageSize, imageSize));
+    return `${count} pixels differ`;
+  }
+  return undefined;
+}
+
+function check(): boolean {
+  clearDiffs();
+  const failures: string[] = [];
+
+  for (const goldenCase of goldenCases) {
+    const failure = compareWithGolden(goldenCase);
+    if (failure !== undefined) {
+      failures.push(`${goldenCase.name}: ${failure}`);
+    }
+  }
+
+  for (const failure of failures) {
+    console.error(`FAIL ${failure}`);
+  }
+  if (failures.length > 0) {
+    console.error(`${failures.length} of ${goldenCases.length} images differ, see ${diffDir}`);
+    console.error('Run `yarn golden:update` if the art is meant to change.');
+    return false;
+  }
+  console.log(`${goldenCases.length} images match their goldens`);
+  return true;
+}
+
+// Only when run as a script, not when the test suite imports the cases
+if (require.main === module) {
+  if (process.argv.includes('--update')) {
+    updateGoldens();
+  } else if (!check()) {
+    process.exit(1);
+  }
+}
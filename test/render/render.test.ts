@@ -0,0 +1,41 @@
+import {describe, it} from 'node:test';
+import assert from 'node:assert/strict';
+import {createCanvas} from '@napi-rs/canvas';
+import {renderImage, RenderOptions} from "@/render/gasfire/render";
+import {defaultAnimation} from "@/render/gasfire/animation";
+import {OverlayMode} from "@/render/gasfire/overlay";
+
+const imageSize = 256;
+const address = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+
+function render(options: RenderOptions): Uint8ClampedArray {
+  const canvas = createCanvas(imageSize, imageSize);
+  const ctx = canvas.getContext('2d');
+  renderImage(ctx, imageSize, imageSize, address, BigInt(600000), 'gas_used', options);
+  return ctx.getImageData(0, 0, imageSize, imageSize).data;
+}
+
+function countDiffering(a: Uint8ClampedArray, b: Uint8ClampedArray): number {
+  let count = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      count++;
+    }
+  }
+  return count;
+}
+
+describe('renderImage', () => {
+  for (const overlay of ['none', 'ring', 'bar'] as OverlayMode[]) {
+    for (const amplitude of [defaultAnimation.amplitude, 24]) {
+      it(`renders the still image as the first animation frame with overlay ${overlay} and amplitude ${amplitude}`, () => {
+        const options: RenderOptions = {background: '#121212', overlay};
+
+        const still = render(options);
+        const firstFrame = render({...options, animation: {frame: 0, frames: defaultAnimation.frames, amplitude}});
+
+        assert.equal(countDiffering(firstFrame, still), 0);
+      });
+    }
+  }
+});
@@ -0,0 +1,25 @@
+import {describe, it} from 'node:test';
+import assert from 'node:assert/strict';
+import {SeedingOptions, XorShift} from "@/render/gasfire/xorshift";
+
+const seeding: SeedingOptions = {version: 'v2', salt: 'gasfire'};
+
+function sequenceOf(address: string): number[] {
+  const random = XorShift.createBy(address, seeding);
+  return Array.from({length: 8}, () => random.nextUint32());
+}
+
+describe('XorShift.createBy', () => {
+  it('seeds v2 the same from prefixed, bare and differently cased addresses', () => {
+    const expected = sequenceOf('0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984');
+
+    assert.deepEqual(sequenceOf('1f9840a85d5aF5bf1D1762F925BDADdC4201F984'), expected);
+    assert.deepEqual(sequenceOf('0X1F9840A85D5AF5BF1D1762F925BDADDC4201F984'), expected);
+    assert.deepEqual(sequenceOf('1f9840a85d5af5bf1d1762f925bdaddc4201f984'), expected);
+  });
+
+  it('rejects a v2 address that is not 20 bytes of hex', () => {
+    assert.throws(() => XorShift.createBy('0x1f9840a85d5aF5bf1D1762F925BDADdC4201F9', seeding), /Invalid address/);
+    assert.throws(() => XorShift.createBy('not an address', seeding), /Invalid address/);
+  });
+});
@@ -0,0 +1,57 @@
+import http from 'http';
+import type {AddressInfo} from 'net';
+
+export type FakeRequest = {
+  method: string,
+  url: URL,
+  headers: http.IncomingHttpHeaders,
+  body: unknown,
+}
+
+export type FakeResponse = {
+  status?: number,
+  body: unknown,
+}
+
+export type FakeServer = {
+  url: string,
+  requests: FakeRequest[],
+  close: () => Promise<void>,
+}
+
+/**
+ * Starts a local HTTP server answering JSON, standing in for an explorer, a node or a signing service.
+ *
+ * @param {(request: FakeRequest) => FakeResponse | Promise<FakeResponse>} handler - Answers each request.
+ * @returns {Promise<FakeServer>} - The server, its base URL and the requests it has received.
+ */
+export async function startFakeServer(
+    handler: (request: FakeRequest) => FakeResponse | Promise<FakeResponse>
+): Promise<FakeServer> {
+  const requests: FakeRequest[] = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', async () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      const request: FakeRequest = {
+        method: req.method ?? 'GET',
+        url: new URL(req.url ?? '/', 'http://localhost'),
+        headers: req.headers,
+        body: text ? JSON.parse(text) : undefined,
+      };
+      requests.push(request);
+      const response = await handler(request);
+      res.writeHead(response.status ?? 200, {'Content-Type': 'application/json'});
+      res.end(JSON.stringify(response.body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const {port} = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,43 @@
+import {describe, it} from 'node:test';
+import assert from 'node:assert/strict';
+import {hexToBigInt} from 'viem';
+import {NextRequest} from "next/server";
+import {GET} from "@/app/api/v1/gasfire/metadata/token/[tokenId]/route";
+
+const address = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+
+describe('GET /api/v1/gasfire/metadata/token/[tokenId]', () => {
+  const request = (tokenId: string, data: string, query: string = '') => GET(
+      new NextRequest(`http://localhost/api/v1/gasfire/metadata/token/${tokenId}?data=${data}${query}`),
+      {params: {tokenId}});
+  const traitOf = (metadata: { attributes: { trait_type: string }[] }, traitType: string) =>
+      metadata.attributes.find(attribute => attribute.trait_type === traitType);
+
+  it('describes the token of the owner address the id encodes', async () => {
+    const response = await request(String(hexToBigInt(address)), '21000');
+
+    assert.equal(response.status, 200);
+    const metadata = await response.json();
+    assert.equal(metadata.name, 'GasFire 0xd8dA…6045');
+    assert.match(metadata.image, new RegExp(`address=${address}&data=21000&`));
+  });
+
+  it('describes the gas used as a number trait', async () => {
+    const metadata = await (await request(String(hexToBigInt(address)), '21000')).json();
+
+    assert.deepEqual(traitOf(metadata, 'Gas Used'), {trait_type: 'Gas Used', value: 21000, display_type: 'number'});
+  });
+
+  it('renders the image with the requested seeds', async () => {
+    const metadata = await (await request(String(hexToBigInt(address)), '21000', '&seeds=tall,wide')).json();
+
+    assert.match(metadata.image, /&seeds=tall,wide(&|$)/);
+  });
+
+  it('rejects ids that are not an address', async () => {
+    const response = await request(String(BigInt(1) << BigInt(160)), '21000');
+
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).code, 'invalid_parameter');
+  });
+});
@@ -0,0 +1,238 @@
+import {describe, it} from 'node:test';
+import assert from 'node:assert/strict';
+import {compactSignatureToSignature, Hex, parseCompactSignature, toHex} from 'viem';
+import {NextRequest} from "next/server";
+import {
+  create_signature,
+  create_typed_data,
+  create_typed_signature,
+  Eip712Domain,
+  EligibilityMessage,
+  SignaturePayload,
+  verify_signature
+} from "@/utils/signature";
+import {DigestSignature, PrivateKeySigner, Signer} from "@/utils/signer";
+import {GET} from "@/app/api/v1/gasfire/signature/verify/route";
+import type {ActivityMetric} from "@/utils/metric";
+
+const privateKey: Hex = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const signer = new PrivateKeySigner(privateKey);
+const address = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+
+// Records the raw signatures, to find payloads whose signature has a given shape
+class RecordingSigner implements Signer {
+  readonly address = signer.address;
+  last?: DigestSignature;
+
+  signDigest = async (hash: Hex): Promise<DigestSignature> => {
+    this.last = await signer.signDigest(hash);
+    return this.last;
+  }
+}
+
+/**
+ * Signs the counters from 0 on until the raw signature matches, as the signature of a payload can't be chosen.
+ */
+async function signMatching(
+    matches: (raw: DigestSignature) => boolean
+): Promise<{ payload: SignaturePayload, raw: DigestSignature, signature: Hex }> {
+  const recorder = new RecordingSigner();
+  for (let data = 0; data < 5000; data++) {
+    const payload: SignaturePayload = [address, true, String(data)];
+    const signature = await create_signature(recorder, payload);
+    if (matches(recorder.last!!)) {
+      return {payload, raw: recorder.last!!, signature};
+    }
+  }
+  throw new Error('No matching signature');
+}
+
+// The encoding of the signature before the high half was padded to 32 bytes
+function legacySignatureOf({r, s, v}: DigestSignature): Hex {
+  let sBigInt = BigInt(s);
+  if (v !== BigInt(27)) {
+    sBigInt = sBigInt | (BigInt(1) << BigInt(255));
+  }
+  return `0x${r.slice(2)}${toHex(sBigInt).slice(2)}` as Hex;
+}
+
+describe('create_signature and verify_signature', () => {
+  for (const v of [27, 28]) {
+    it(`round-trips a signature with v = ${v}`, async () => {
+      const {payload, signature} = await signMatching(raw => raw.v === BigInt(v));
+
+      assert.match(signature, /^0x[0-9a-f]{128}$/);
+      assert.equal(BigInt(`0x${signature.slice(66)}`) >> BigInt(255), BigInt(v - 27));
+      assert.deepEqual(await verify_signature(signature, payload, [signer.address]), {signer: signer.address, valid: true});
+    });
+  }
+
+  it('keeps the encoding of signatures whose high half has no leading zero', async () => {
+    for (const v of [27, 28]) {
+      const {raw, signature} = await signMatching(raw => raw.v === BigInt(v) && BigInt(raw.s) >= BigInt(1) << BigInt(252));
+
+      assert.equal(signature, legacySignatureOf(raw));
+    }
+  });
+
+  it('pads a high half with leading zeros to 32 bytes', async () => {
+    const {payload, raw, signature} = await signMatching(raw => raw.v === BigInt(27) && BigInt(raw.s) < BigInt(1) << BigInt(248));
+
+    assert.ok(legacySignatureOf(raw).length < signature.length);
+    assert.equal(signature.length, 130);
+    assert.equal((await verify_signature(signature, payload, [signer.address])).valid, true);
+  });
+
+  it('matches the compact signature of EIP-2098', async () => {
+    const {raw, signature} = await signMatching(() => true);
+
+    const {r, s, yParity} = compactSignatureToSignature(parseCompactSignature(signature));
+    assert.deepEqual({r, s, yParity}, {r: raw.r, s: raw.s, yParity: Number(raw.v - BigInt(27))});
+  });
+
+  it('recovers another signer for a changed payload', async () => {
+    const {payload, signature} = await signMatching(() => true);
+
+    const verification = await verify_signature(signature, [payload[0], false, payload[2]], [signer.address]);
+    assert.equal(verification.valid, false);
+    assert.notEqual(verification.signer, signer.address);
+  });
+});
+
+describe('GET /api/v1/gasfire/signature/verify', () => {
+  const request = (params: Record<string, string>) =>
+      GET(new NextRequest(`http://localhost/api/v1/gasfire/signature/verify?${new URLSearchParams(params)}`), {});
+
+  it('accepts a signature of the active signer', async () => {
+    process.env.SIGNER_PRIVATE_KEY = privateKey;
+    const signature = await create_signature(signer, [address, true, '123']);
+
+    const response = await request({address, result: 'true', data: '123', signature});
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), {
+      valid: true, signer: signer.address, trusted_signers: [signer.address], signature_mode: 'compact'
+    });
+  });
+
+  it('rejects data that does not fit in 32 bytes', async () => {
+    const signature = `0x${'1'.repeat(128)}`;
+
+    const response = await request({address, result: 'true', data: '1'.repeat(33), signature});
+
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).code, 'invalid_data');
+  });
+});
+
+describe('GET /api/v1/gasfire/signature/verify in eip712 mode', () => {
+  const domain: Eip712Domain = {
+    name: 'GasFire',
+    version: '1',
+    chainId: 8453,
+    verifyingContract: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984',
+  };
+  const now = BigInt(Math.floor(Date.now() / 1000));
+
+  const request = async (message: EligibilityMessage, signature: Hex, metric: ActivityMetric = 'gas_used') => {
+    process.env.SIGNER_PRIVATE_KEY = privateKey;
+    process.env.SIGNATURE_MODE = 'eip712';
+    process.env.GASFIRE_METRIC = metric;
+    process.env.EIP712_CHAIN_ID = String(domain.chainId);
+    process.env.EIP712_VERIFYING_CONTRACT = domain.verifyingContract;
+    const params = new URLSearchParams({
+      address: message.address,
+      result: String(message.eligible),
+      data: String(message.value),
+      nonce: String(message.nonce),
+      deadline: String(message.deadline),
+      signature,
+    });
+    try {
+      return await GET(new NextRequest(`http://localhost/api/v1/gasfire/signature/verify?${params}`), {});
+    } finally {
+      delete process.env.SIGNATURE_MODE;
+      delete process.env.GASFIRE_METRIC;
+    }
+  };
+
+  const messageOf = (deadline: bigint): EligibilityMessage =>
+      ({address, eligible: true, metric: 'gas_used', value: BigInt(21000), nonce: BigInt(7), deadline});
+
+  it('accepts a typed signature before its deadline', async () => {
+    const message = messageOf(now + BigInt(3600));
+    const signature = await create_typed_signature(signer, domain, message);
+
+    const response = await request(message, signature);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), {
+      valid: true, signer: signer.address, expired: false, trusted_signers: [signer.address], signature_mode: 'eip712'
+    });
+  });
+
+  it('rejects a typed signature after its deadline', async () => {
+    const message = messageOf(now - BigInt(1));
+    const signature = await create_typed_signature(signer, domain, message);
+
+    const body = await (await request(message, signature)).json();
+
+    assert.equal(body.valid, false);
+    assert.equal(body.expired, true);
+    assert.equal(body.signer, signer.address);
+  });
+
+  it('rejects a typed signature of another nonce', async () => {
+    const message = messageOf(now + BigInt(3600));
+    const signature = await create_typed_signature(signer, domain, message);
+
+    const body = await (await request({...message, nonce: BigInt(8)}, signature)).json();
+
+    assert.equal(body.valid, false);
+    assert.notEqual(body.signer, signer.address);
+  });
+
+  it('signs the counter under the field of its metric', async () => {
+    const message = messageOf(now + BigInt(3600));
+
+    assert.deepEqual(create_typed_data(domain, message).message,
+        {address, eligible: true, gasUsed: BigInt(21000), nonce: BigInt(7), deadline: message.deadline});
+    assert.deepEqual(create_typed_data(domain, {...message, metric: 'fee_paid'}).message,
+        {address, eligible: true, feePaid: BigInt(21000), nonce: BigInt(7), deadline: message.deadline});
+  });
+
+  it('accepts a fee signature only where the fee is the configured metric', async () => {
+    const message: EligibilityMessage = {...messageOf(now + BigInt(3600)), metric: 'fee_paid'};
+    const signature = await create_typed_signature(signer, domain, message);
+
+    assert.equal((await (await request(message, signature, 'fee_paid')).json()).valid, true);
+    assert.equal((await (await request(message, signature, 'gas_used')).json()).valid, false);
+  });
+
+  it('rejects a compact signature naming the signature mode', async () => {
+    const message = messageOf(now + BigInt(3600));
+    const signature = await create_signature(signer, [address, true, '21000']);
+
+    const response = await request(message, signature);
+
+    assert.equal(response.status, 400);
+    const body = await response.json();
+    assert.equal(body.code, 'invalid_signature');
+    assert.match(body.error, /eip712 signature mode/);
+  });
+
+  it('reports an invalid signature lifetime as a configuration error', async () => {
+    const message = messageOf(now + BigInt(3600));
+    const signature = await create_typed_signature(signer, domain, message);
+    process.env.EIP712_TTL_SECONDS = 'one hour';
+
+    try {
+      const response = await request(message, signature);
+
+      assert.equal(response.status, 500);
+      assert.equal((await response.json()).code, 'configuration_error');
+    } finally {
+      delete process.env.EIP712_TTL_SECONDS;
+    }
+  });
+});
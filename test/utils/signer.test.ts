@@ -0,0 +1,132 @@
+import {after, before, describe, it} from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import {readFile} from 'fs/promises';
+import {Hex, keccak256, recoverAddress, serializeSignature, stringToHex} from 'viem';
+import {privateKeyToAddress, sign} from 'viem/accounts';
+import {KeystoreSigner, loadSigner, loadTrustedSigners, PrivateKeySigner, RemoteSigner} from "@/utils/signer";
+import {create_signature, SignaturePayload, verify_signature} from "@/utils/signature";
+import {toErrorResponse} from "@/utils/errors";
+import {ProviderError} from "@/client/gasfire/errors";
+import {FakeRequest, FakeResponse, FakeServer, startFakeServer} from "../support/fakeserver";
+
+const fixturesDir = path.join(__dirname, '..', 'fixtures');
+// The key of both fixture keystores, from the test vectors of the Web3 Secret Storage definition
+const keystoreKey: Hex = '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d';
+const keystorePassword = 'testpassword';
+
+const remoteKey: Hex = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const otherKey: Hex = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const digest = keccak256(stringToHex('gasfire'));
+const payload: SignaturePayload = ['0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045', true, '21000'];
+
+describe('KeystoreSigner.unlock', () => {
+  for (const kdf of ['scrypt', 'pbkdf2']) {
+    it(`unlocks a ${kdf} keystore with the right password`, async () => {
+      const json = await readFile(path.join(fixturesDir, `keystore-${kdf}.json`), 'utf8');
+
+      const signer = await KeystoreSigner.unlock(json, keystorePassword);
+
+      assert.equal(signer.address, privateKeyToAddress(keystoreKey));
+      assert.equal(await recoverAddress({hash: digest, signature: await signer.signDigest(digest)}), signer.address);
+    });
+
+    it(`rejects a ${kdf} keystore with a wrong password`, async () => {
+      const json = await readFile(path.join(fixturesDir, `keystore-${kdf}.json`), 'utf8');
+
+      await assert.rejects(KeystoreSigner.unlock(json, 'wrongpassword'), /Invalid keystore password/);
+    });
+  }
+});
+
+describe('RemoteSigner', () => {
+  const address = privateKeyToAddress(remoteKey);
+  let server: FakeServer;
+  let respond: (request: FakeRequest) => FakeResponse | Promise<FakeResponse>;
+
+  // Signs the requested digest with the key, as the signing service does
+  const signingService = (privateKey: Hex) => async (request: FakeRequest): Promise<FakeResponse> => {
+    const {digest} = request.body as { digest: Hex };
+    return {body: {signature: serializeSignature(await sign({hash: digest, privateKey}))}};
+  };
+
+  before(async () => {
+    server = await startFakeServer(request => respond(request));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('signs through the service', async () => {
+    respond = signingService(remoteKey);
+    const signer = new RemoteSigner(server.url, address, 'secret');
+
+    const signature = await create_signature(signer, payload);
+
+    assert.equal(server.requests[server.requests.length - 1].headers.authorization, 'Bearer secret');
+    assert.deepEqual(await verify_signature(signature, payload, [address]), {signer: address, valid: true});
+  });
+
+  const rejectsWith = async (status: number, code: string) => {
+    const error = await new RemoteSigner(server.url, address).signDigest(digest).then(() => undefined, error => error);
+    assert.ok(error instanceof ProviderError);
+    const response = toErrorResponse(error);
+    assert.equal(response.status, status);
+    assert.equal((await response.json()).code, code);
+  };
+
+  it('reports a failing service as an upstream error', async () => {
+    respond = () => ({status: 500, body: {error: 'HSM unreachable'}});
+
+    await rejectsWith(502, 'upstream_error');
+  });
+
+  it('reports an unavailable service as an unavailable upstream', async () => {
+    respond = () => ({status: 503, body: {error: 'maintenance'}});
+
+    await rejectsWith(503, 'upstream_unavailable');
+  });
+
+  it('reports a response without a signature as an upstream error', async () => {
+    respond = () => ({body: {status: 'ok'}});
+
+    await rejectsWith(502, 'upstream_error');
+  });
+
+  it('reports a signature of another key as an upstream error', async () => {
+    respond = signingService(otherKey);
+
+    await rejectsWith(502, 'upstream_error');
+  });
+});
+
+describe('loadTrustedSigners', () => {
+  const previousSigner = new PrivateKeySigner(otherKey);
+
+  before(() => {
+    process.env.SIGNER_BACKEND = 'keystore';
+    process.env.SIGNER_KEYSTORE_PATH = path.join(fixturesDir, 'keystore-scrypt.json');
+    process.env.SIGNER_KEYSTORE_PASSWORD = keystorePassword;
+    process.env.SIGNER_PREVIOUS_ADDRESSES = ` ${previousSigner.address.toLowerCase()} ,`;
+  });
+
+  it('trusts the active signer followed by the rotated out addresses', async () => {
+    assert.equal((await loadSigner()).address, privateKeyToAddress(keystoreKey));
+    assert.deepEqual(await loadTrustedSigners(), [privateKeyToAddress(keystoreKey), previousSigner.address]);
+  });
+
+  it('keeps signatures of a rotated out signer valid', async () => {
+    const signature = await create_signature(previousSigner, payload);
+
+    const verification = await verify_signature(signature, payload, await loadTrustedSigners());
+
+    assert.deepEqual(verification, {signer: previousSigner.address, valid: true});
+  });
+
+  it('rejects signatures of a signer that was never trusted', async () => {
+    const signature = await create_signature(new PrivateKeySigner(remoteKey), payload);
+
+    assert.equal((await verify_signature(signature, payload, await loadTrustedSigners())).valid, false);
+  });
+});